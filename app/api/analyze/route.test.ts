@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST } from './route';
+
+const post = (body: unknown) => POST(new Request('http://localhost/api/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+}));
+
+test('rejects an osm_id that is not a number', async () => {
+    // Would read boundary/relation-1/../../../package.json.json with fixtures, or inject into the Overpass query
+    for (const osm_id of ['1/../../../package.json', '1); way(2', '-1', '1.5']) {
+        const res = await post({ osm_type: 'relation', osm_id });
+        assert.equal(res.status, 400, osm_id);
+        assert.match((await res.json()).error, /osm_id/);
+    }
+});
+
+test('rejects an osm_type other than relation or way', async () => {
+    const res = await post({ osm_type: 'node', osm_id: 1 });
+    assert.equal(res.status, 400);
+    assert.match((await res.json()).error, /osm_type/);
+});
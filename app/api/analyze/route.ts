@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { Feature, MultiPolygon, Polygon } from 'geojson';
+import { jsonWithCacheHeaders, upstreamErrorStatus } from '@/lib/upstream';
+import { AnalysisError, parseAnalysisSettings } from '@/lib/analysis';
+import { analyzeBoundary, boundaryFromGeoJSON, boundaryFromOsm, NoRoadsError } from '@/lib/pipeline';
+import { cellFeatures } from '@/lib/export';
+
+// Runs the whole pipeline without a browser: boundary -> buffer -> roads ->
+// closest road -> grid -> valuation (lib/pipeline). Body:
+//   boundary          GeoJSON Polygon/MultiPolygon (Feature or geometry), or
+//   osm_type, osm_id  an OSM relation/way to use as the boundary
+//   settings          the sidebar settings (lib/analysis AnalysisSettings); anything omitted uses the
+//                     app defaults, and roadTypes may be a list, e.g. ["primary", "secondary"]
+//   closestRoadIndex  optional, value against this road instead of the closest one
+// Requests estimated above ANALYZE_MAX_CELLS cells (default 20000) are rejected.
+
+export async function POST(request: Request) {
+    // A malformed body is the client's mistake, not a pipeline failure
+    let parsed: unknown;
+    try {
+        parsed = await request.json();
+    } catch {
+        return NextResponse.json({ error: 'Request body must be valid JSON' }, { status: 400 });
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+    const body = parsed as Record<string, unknown>;
+
+    try {
+
+        let boundary: Feature<Polygon | MultiPolygon> | null;
+        if (body.boundary) {
+            boundary = boundaryFromGeoJSON(body.boundary);
+        } else if (body.osm_id && body.osm_type) {
+            // Both end up in an Overpass query, and in a file path with the fixture provider
+            const osmType = String(body.osm_type);
+            const osmId = String(body.osm_id);
+            if (osmType !== 'relation' && osmType !== 'way') {
+                return NextResponse.json({ error: 'Invalid osm_type. Must be relation or way.' }, { status: 400 });
+            }
+            if (!/^\d+$/.test(osmId)) {
+                return NextResponse.json({ error: 'Invalid osm_id. Must be a number.' }, { status: 400 });
+            }
+            boundary = await boundaryFromOsm(osmType, osmId);
+        } else {
+            return NextResponse.json({ error: 'boundary (GeoJSON) or osm_type and osm_id are required' }, { status: 400 });
+        }
+        if (!boundary) {
+            return NextResponse.json({ error: 'No usable boundary polygon found' }, { status: 400 });
+        }
+
+        const settings = parseAnalysisSettings(body.settings);
+        const analysis = await analyzeBoundary(boundary, settings, {
+            closestRoadIndex: typeof body.closestRoadIndex === 'number' ? body.closestRoadIndex : null
+        });
+
+        return jsonWithCacheHeaders({
+            type: 'FeatureCollection',
+            features: cellFeatures(analysis.cells, analysis.roads),
+            summary: analysis.summary,
+            settings
+        }, analysis.roadsResult);
+
+    } catch (error: any) {
+        if (error instanceof NoRoadsError) {
+            return NextResponse.json({ error: error.message }, { status: 422 });
+        }
+        if (error instanceof AnalysisError) {
+            return NextResponse.json({ error: error.message }, { status: 400 });
+        }
+        console.error("Analyze API Error:", error);
+        return NextResponse.json({ error: error.message }, { status: upstreamErrorStatus(error) });
+    }
+}
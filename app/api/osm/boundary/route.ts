@@ -1,8 +1,8 @@
 
 import { NextResponse } from 'next/server';
 import osmtogeojson from 'osmtogeojson';
-
-const OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
+import { jsonWithCacheHeaders, upstreamErrorStatus } from '@/lib/upstream';
+import { getOsmProvider } from '@/lib/osmProvider';
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
@@ -19,33 +19,23 @@ export async function GET(request: Request) {
     // Query: [out:json]; relation(ID); out geom;
     // If type is way: way(ID); out geom;
 
-    let typeShort = '';
-    if (osmType === 'relation') typeShort = 'rel';
-    else if (osmType === 'way') typeShort = 'way';
-    else {
+    if (osmType !== 'relation' && osmType !== 'way') {
         // Fallback or error? Let's just try relation if unknown or return error.
         return NextResponse.json({ error: 'Invalid osm_type. Must be relation or way.' }, { status: 400 });
     }
 
-    const query = `[out:json]; ${typeShort}(${osmId}); out geom;`;
+    if (!/^\d+$/.test(osmId)) {
+        return NextResponse.json({ error: 'Invalid osm_id. Must be a number.' }, { status: 400 });
+    }
 
     try {
-        const res = await fetch(OVERPASS_API_URL, {
-            method: 'POST',
-            body: query,
-            // headers: { 'Content-Type': 'text/plain' }
-        });
-
-        if (!res.ok) {
-            throw new Error(`Overpass API error: ${res.statusText}`);
-        }
+        const result = await getOsmProvider().boundary(osmType, osmId);
 
-        const osmData = await res.json();
-        const geojson = osmtogeojson(osmData);
+        const geojson = osmtogeojson(result.data);
 
-        return NextResponse.json(geojson);
+        return jsonWithCacheHeaders(geojson, result);
 
     } catch (error: any) {
-        return NextResponse.json({ error: error.message }, { status: 500 });
+        return NextResponse.json({ error: error.message }, { status: upstreamErrorStatus(error) });
     }
 }
@@ -0,0 +1,36 @@
+
+import { NextResponse } from 'next/server';
+import { FeatureCollection, Point } from 'geojson';
+import { jsonWithCacheHeaders, upstreamErrorStatus } from '@/lib/upstream';
+import { BBox, getOsmProvider } from '@/lib/osmProvider';
+import { getPoiCategory, overpassToPoiFeatures } from '@/lib/poi';
+
+export async function POST(request: Request) {
+    try {
+        const body = await request.json();
+        const { bbox, categories } = body;
+
+        if (!bbox || !Array.isArray(bbox) || bbox.length !== 4) {
+            return NextResponse.json({ error: 'Valid BBox [minX, minY, maxX, maxY] is required' }, { status: 400 });
+        }
+
+        if (!categories || !Array.isArray(categories) || categories.length === 0) {
+            return NextResponse.json({ error: 'At least one POI category is required' }, { status: 400 });
+        }
+
+        const unknown = categories.filter((c: string) => !getPoiCategory(c));
+        if (unknown.length > 0) {
+            return NextResponse.json({ error: `Unknown POI categories: ${unknown.join(', ')}` }, { status: 400 });
+        }
+
+        const result = await getOsmProvider().pois(bbox as BBox, categories);
+        const features = overpassToPoiFeatures(result.data, categories);
+
+        const geojson: FeatureCollection<Point> = { type: 'FeatureCollection', features };
+        return jsonWithCacheHeaders(geojson, result);
+
+    } catch (error: any) {
+        console.error("POIs API Error:", error);
+        return NextResponse.json({ error: error.message }, { status: upstreamErrorStatus(error) });
+    }
+}
@@ -1,8 +1,8 @@
 
 import { NextResponse } from 'next/server';
 import osmtogeojson from 'osmtogeojson';
-
-const OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
+import { jsonWithCacheHeaders, upstreamErrorStatus } from '@/lib/upstream';
+import { BBox, getOsmProvider } from '@/lib/osmProvider';
 
 export async function POST(request: Request) {
     try {
@@ -17,43 +17,15 @@ export async function POST(request: Request) {
             return NextResponse.json({ error: 'At least one road type is required' }, { status: 400 });
         }
 
-        // Convert types array to regex string for Overpass
-        // e.g., types=["primary", "secondary"] -> "primary|secondary"
-        const typeRegex = types.join('|');
-
-        // Construct Overpass QL
-        // BBox in Overpass is (south, west, north, east) -> (minY, minX, maxY, maxX)
-        // Turf/GeoJSON bbox is [minX, minY, maxX, maxY]
-        const [minX, minY, maxX, maxY] = bbox;
-        const overpassBbox = `${minY},${minX},${maxY},${maxX}`;
-
-        // Query: ways with highway matching regex in bbox
-        const query = `
-      [out:json][timeout:25];
-      (
-        way["highway"~"^(${typeRegex})$"](${overpassBbox});
-      );
-      out geom;
-    `;
-
-        // console.log("Overpass Query:", query);
-
-        const res = await fetch(OVERPASS_API_URL, {
-            method: 'POST',
-            body: query,
-        });
-
-        if (!res.ok) {
-            throw new Error(`Overpass API error: ${res.statusText}`);
-        }
+        // Query: ways with highway matching the types in bbox (see buildRoadsQuery)
+        const result = await getOsmProvider().roads(bbox as BBox, types);
 
-        const osmData = await res.json();
-        const geojson = osmtogeojson(osmData);
+        const geojson = osmtogeojson(result.data);
 
-        return NextResponse.json(geojson);
+        return jsonWithCacheHeaders(geojson, result);
 
     } catch (error: any) {
         console.error("Roads API Error:", error);
-        return NextResponse.json({ error: error.message }, { status: 500 });
+        return NextResponse.json({ error: error.message }, { status: upstreamErrorStatus(error) });
     }
 }
@@ -1,7 +1,7 @@
 
 import { NextResponse } from 'next/server';
-
-const NOMINATIM_BASE_URL = 'https://nominatim.openstreetmap.org/search';
+import { jsonWithCacheHeaders, upstreamErrorStatus } from '@/lib/upstream';
+import { getOsmProvider } from '@/lib/osmProvider';
 
 export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
@@ -12,31 +12,11 @@ export async function GET(request: Request) {
     }
 
     try {
-        const params = new URLSearchParams({
-            q,
-            format: 'json',
-            polygon_geojson: '1',
-            addressdetails: '1',
-            limit: '5'
-        });
-
-        const url = `${NOMINATIM_BASE_URL}?${params.toString()}`;
-
-        // Polite User Agent
-        const headers = {
-            'User-Agent': 'LandValueGradientApp/1.0',
-            'Referer': 'http://localhost:3000'
-        };
-
-        const res = await fetch(url, { headers });
-        if (!res.ok) {
-            throw new Error(`Nominatim API error: ${res.statusText}`);
-        }
-
-        const data = await res.json();
-        return NextResponse.json(data);
+        // The provider normalizes the query so "HSR Layout" and " hsr  layout" share a cache entry
+        const result = await getOsmProvider().search(q);
+        return jsonWithCacheHeaders(result.data, result);
     } catch (error: any) {
         console.error("Search API Error:", error);
-        return NextResponse.json({ error: error.message }, { status: 500 });
+        return NextResponse.json({ error: error.message }, { status: upstreamErrorStatus(error) });
     }
 }
@@ -1,9 +1,24 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
-import { calculateArea, normalizePolygon } from '@/lib/geo'; // Assumed helpers
-import { Feature, Polygon, MultiPolygon, LineString } from 'geojson';
+import { calculateArea, normalizePolygon, googlePathToGeoJSON, googlePathsToGeoJSON, geoJSONToGooglePaths, getRoadLabel, inspectCell, RoadClassWeights, GridType, CellValue, ClosestRoadResult, NearbyRoad } from '@/lib/geo'; // Assumed helpers
+import { Feature, Polygon, MultiPolygon, LineString, Point } from 'geojson';
+import { POI_CATEGORIES } from '@/lib/poi';
+import { DEFAULT_FRONTAGE_TOLERANCE_METERS, FRONTAGE_CLASS_COLORS, FRONTAGE_FALLBACK_COLOR, FrontageResult } from '@/lib/frontage';
+import { DecayCurve } from '@/lib/decay';
+import { AREA_UNITS, AreaUnit, PricingSettings, formatMoney, priceCells, summarizePricing } from '@/lib/pricing';
+import { Scenario, createScenario, diffScenarios } from '@/lib/scenarios';
+import { CLASSIFICATION_METHODS, ClassificationMethod, COLOR_SCHEMES, ColorSchemeId, ColorSettings, MAX_CLASSES, MIN_CLASSES, colorCells, createValueScale } from '@/lib/colorScale';
+import type { ProjectFile } from '@/lib/project';
+import { AnalysisError, AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS } from '@/lib/analysis';
+import { AnalysisCancelledError, AnalysisProgress, AnalysisRun } from '@/lib/analysisWorker';
+import DecayCurveEditor from '@/components/DecayCurveEditor';
+import ScenarioPanel from '@/components/ScenarioPanel';
+import AnalysisProgressBar from '@/components/AnalysisProgressBar';
+import { CONTOUR_FIELDS, ContourBand, ContourField } from '@/lib/contours';
+import CellInspector from '@/components/CellInspector';
+import ValueLegend from '@/components/ValueLegend';
 
 // Dynamic import for MapComponent
 const MapComponent = dynamic(() => import('@/components/MapComponent'), {
@@ -24,6 +39,57 @@ interface SearchResult {
   geojson?: any; // Nominatim returns this if requested
 }
 
+// Shown next to a result that was computed before the boundary was last edited
+function StaleNote() {
+  return (
+    <div style={{ marginTop: '6px', fontSize: '0.8rem', color: '#b71c1c' }}>
+      Boundary changed since this was calculated. Run it again.
+    </div>
+  );
+}
+
+// value is what the colour encodes; the map averages it when it merges cells at low zoom
+type ColoredCell = { path: google.maps.LatLngLiteral[], color: string, tooltip: string, value: number };
+
+type ClosestRoadData = { roadIndex: number, distanceMeters: number, connection: google.maps.LatLngLiteral[] };
+
+const toPath = (coords: number[][]) => coords.map(c => ({ lat: c[1], lng: c[0] }));
+
+// Closest road in map (lat/lng) form and back to GeoJSON positions for lib/analysis
+const closestRoadDataFor = (result: ClosestRoadResult | null): ClosestRoadData | null =>
+  result && { roadIndex: result.roadIndex, distanceMeters: result.distanceMeters, connection: toPath(result.connection) };
+const closestRoadFor = (data: ClosestRoadData | null): ClosestRoadResult | null =>
+  data && { ...data, connection: data.connection.map(p => [p.lng, p.lat]) };
+
+// Map cells for a set of valuation results, with the hover tooltip text
+function toColoredCells(results: CellValue[], roads: Feature<LineString>[]): ColoredCell[] {
+  return results.map(r => ({
+    path: toPath(r.feature.geometry.coordinates[0]),
+    color: r.color,
+    value: r.value,
+    tooltip: (r.euclideanDistance !== undefined
+      ? `Travel: ${Number.isFinite(r.distance) ? `${Math.round(r.distance)}m` : 'unreachable'}, Straight: ${Math.round(r.euclideanDistance)}m`
+      : `Dist: ${Math.round(r.distance)}m`) +
+      `, Val: ${r.value.toFixed(2)}` +
+      (r.roadIndex !== undefined && roads[r.roadIndex] ? `, Road: ${getRoadLabel(roads[r.roadIndex])}` : '') +
+      Object.entries(r.poiDistances || {})
+        .map(([category, d]) => `, ${POI_CATEGORIES.find(c => c.id === category)?.label}: ${Math.round(d)}m`)
+        .join('')
+  }));
+}
+
+function valuationStatsFor(results: CellValue[]) {
+  if (results.length === 0) return null;
+  const dists = results.map(r => r.distance).filter(d => Number.isFinite(d));
+  const vals = results.map(r => r.value);
+  return {
+    minD: Math.min(...dists),
+    maxD: Math.max(...dists),
+    minV: Math.min(...vals),
+    maxV: Math.max(...vals)
+  };
+}
+
 export default function Home() {
   const [query, setQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
@@ -31,7 +97,7 @@ export default function Home() {
   const [searchError, setSearchError] = useState<string | null>(null);
 
   const [boundaryGeoJson, setBoundaryGeoJson] = useState<Feature<Polygon | MultiPolygon> | null>(null);
-  const [polygonPath, setPolygonPath] = useState<google.maps.LatLngLiteral[] | null>(null);
+  const [boundaryPaths, setBoundaryPaths] = useState<google.maps.LatLngLiteral[][][] | null>(null);
   const [areaSqM, setAreaSqM] = useState<number | null>(null);
 
   // --- OSM Logic ---
@@ -94,48 +160,93 @@ export default function Home() {
     }
   };
 
-  const updateBoundaryState = (feature: Feature<Polygon | MultiPolygon>) => {
-    setBoundaryGeoJson(feature);
-    setAreaSqM(calculateArea(feature));
+  /* Boundary Import Logic */
+  const [pastedBoundary, setPastedBoundary] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const importBoundary = async (text: string, filename?: string) => {
+    setImportError(null);
+    try {
+      const { parseBoundaryFile } = await import('@/lib/boundaryImport');
+      const parsed = parseBoundaryFile(text, filename);
+
+      const normalized = normalizePolygon(parsed);
+      if (!normalized) throw new Error("Could not normalize geometry to Polygon.");
 
-    // Convert to Google Maps Path (just the outer shell of the first polygon if Multi)
-    // For simplicity in this demo, strict handling of MultiPolygon > Google Polygon (paths array)
-    if (feature.geometry.type === 'Polygon') {
-      const coords = feature.geometry.coordinates[0]; // Ring 0
-      const path = coords.map(c => ({ lat: c[1], lng: c[0] }));
-      setPolygonPath(path);
-    } else if (feature.geometry.type === 'MultiPolygon') {
-      // Flatten or pick largest. lib/geo normalizePolygon should have already picked the largest Polygon?
-      // If normalizePolygon returns 'Polygon' type (as implemented in lib/geo), we are good.
-      // Wait, my lib/geo implementation returns Feature<Polygon | MultiPolygon>.
-      // Actually implementation in lib/geo: normalizePolygon returns Feature<Polygon | MultiPolygon> but logic tries to return Polygon.
-      // Let's assume it returns Polygon.
-      // If it was valid, calculateArea handles it.
-      // Visualization:
-      const coords = feature.geometry.coordinates[0][0];
-      setPolygonPath(coords.map((c: number[]) => ({ lat: c[1], lng: c[0] })));
+      updateBoundaryState(normalized);
+      setSearchResults([]);
+      setPastedBoundary('');
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import boundary');
     }
   };
 
+  const handleBoundaryFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+    await importBoundary(await file.text(), file.name);
+  };
 
+  /* Boundary Drawing & Editing Logic */
+  const [isDrawingBoundary, setIsDrawingBoundary] = useState(false);
+  const [drawPath, setDrawPath] = useState<google.maps.LatLngLiteral[]>([]);
+  const [isEditingBoundary, setIsEditingBoundary] = useState(false);
+  // Results computed from an older boundary; each step clears its own flag when re-run
+  const [staleSteps, setStaleSteps] = useState({ distance: false, frontage: false, grid: false, valuation: false });
+
+  const markAnalysisStale = () => {
+    setStaleSteps({ distance: true, frontage: true, grid: true, valuation: true });
+  };
+
+  const startDrawing = () => {
+    setIsEditingBoundary(false);
+    setIsPlacingAccessPoints(false);
+    setDrawPath([]);
+    setIsDrawingBoundary(true);
+  };
+
+  const finishDrawing = () => {
+    try {
+      updateBoundaryState(googlePathToGeoJSON(drawPath));
+      setIsDrawingBoundary(false);
+      setDrawPath([]);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Invalid polygon');
+    }
+  };
+
+  const handleBoundaryEdit = (paths: google.maps.LatLngLiteral[][][]) => {
+    try {
+      updateBoundaryState(googlePathsToGeoJSON(paths));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const updateBoundaryState = (feature: Feature<Polygon | MultiPolygon>) => {
+    setBoundaryGeoJson(feature);
+    setAreaSqM(calculateArea(feature));
+    markAnalysisStale();
+
+    // Convert to Google Maps Paths: every part, with holes
+    setBoundaryPaths(geoJSONToGooglePaths(feature));
+  };
 
   const handleClear = () => {
     setBoundaryGeoJson(null);
-    setPolygonPath(null);
+    setBoundaryPaths(null);
+    setIsEditingBoundary(false);
     setAreaSqM(null);
     setSearchResults([]);
     setSearchError(null);
+    setImportError(null);
     setQuery('');
   };
 
   /* Roads Logic */
-  const [bufferDistance, setBufferDistance] = useState(300);
-  const [roadTypes, setRoadTypes] = useState({
-    motorway: true,
-    trunk: true,
-    primary: true,
-    secondary: true
-  });
+  const [bufferDistance, setBufferDistance] = useState(DEFAULT_ANALYSIS_SETTINGS.bufferDistance);
+  const [roadTypes, setRoadTypes] = useState<Record<string, boolean>>(DEFAULT_ANALYSIS_SETTINGS.roadTypes);
   const [roadsHelpers, setRoadsHelpers] = useState<Feature<any>[]>([]); // Store GeoJSON features if needed
   const [roadsPaths, setRoadsPaths] = useState<google.maps.LatLngLiteral[][]>([]);
   const [isFetchingRoads, setIsFetchingRoads] = useState(false);
@@ -155,45 +266,14 @@ export default function Home() {
     const startTime = performance.now();
 
     try {
-      // 1. Calculate Buffer and BBOX client-side
-      const { createBuffer, getBoundingBox } = await import('@/lib/geo');
-
-      // boundaryGeoJson is Feature<Polygon|MultiPolygon>. Type casting for ts if needed.
-      const buffered = createBuffer(boundaryGeoJson as any, bufferDistance);
-      if (!buffered) throw new Error("Failed to create buffer");
-
-      const bbox = getBoundingBox(buffered as any); // [minX, minY, maxX, maxY]
-
-      // 2. Prepare Types
-      const selectedTypes = Object.entries(roadTypes)
-        .filter(([_, enabled]) => enabled)
-        .map(([type]) => type);
-
-      if (selectedTypes.length === 0) throw new Error("Select at least one road type.");
-
-      // 3. Call API
-      const res = await fetch('/api/osm/roads', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ bbox, types: selectedTypes })
-      });
-
-      if (!res.ok) {
-        const errData = await res.json();
-        throw new Error(errData.error || "Failed to fetch roads");
-      }
-
-      const geojson = await res.json();
-      // geojson is FeatureCollection
-
-      const roadFeatures: Feature<any>[] = geojson.features.filter((f: any) => f.geometry.type === 'LineString');
+      const { fetchRoads } = await import('@/lib/osmClient');
+      const { selectedRoadTypes } = await import('@/lib/analysis');
+      const roadFeatures = await fetchRoads(boundaryGeoJson, bufferDistance, selectedRoadTypes({ roadTypes }));
       setRoadsHelpers(roadFeatures);
+      setFrontage(null);
 
       // Convert to Google Maps Paths
-      const newPaths: google.maps.LatLngLiteral[][] = roadFeatures.map((f) => {
-        const coords = (f.geometry as any).coordinates; // [[lng, lat]]
-        return coords.map((c: number[]) => ({ lat: c[1], lng: c[0] }));
-      });
+      const newPaths = roadFeatures.map(f => toPath(f.geometry.coordinates));
 
       setRoadsPaths(newPaths);
       setRoadsStats({
@@ -209,51 +289,302 @@ export default function Home() {
     }
   };
 
-  const [closestRoadData, setClosestRoadData] = useState<{
-    roadIndex: number;
-    distanceMeters: number;
-    connection: google.maps.LatLngLiteral[]
-  } | null>(null);
+  /* Worker Runs */
+  // Closest road, grid and valuation run in a Web Worker (lib/analysisWorker); one at a time
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const cancelRunRef = useRef<(() => void) | null>(null);
+
+  const awaitRun = async <T,>(run: AnalysisRun<T>): Promise<T> => {
+    cancelRunRef.current = run.cancel;
+    try {
+      return await run.result;
+    } finally {
+      cancelRunRef.current = null;
+      setAnalysisProgress(null);
+    }
+  };
+
+  const handleCancelRun = () => cancelRunRef.current?.();
+
+  const progressBarFor = (step: AnalysisProgress['step']) =>
+    analysisProgress && analysisProgress.step === step && !isRestoringProject
+      ? <AnalysisProgressBar progress={analysisProgress} onCancel={handleCancelRun} />
+      : null;
+
+  // The valuation reference road; the closest one unless another is picked from nearbyRoads
+  const [closestRoadData, setClosestRoadData] = useState<ClosestRoadData | null>(null);
+  const [nearbyRoads, setNearbyRoads] = useState<NearbyRoad[]>([]);
+  const [nearbyRoadCount, setNearbyRoadCount] = useState(5);
 
   const handleComputeClosestRoad = async () => {
     if (!boundaryGeoJson || roadsHelpers.length === 0) return;
 
     try {
-      const { findClosestRoadAndConnection } = await import('@/lib/geo');
-
-      // findClosestRoadAndConnection expects Feature<Polygon> and Feature<LineString>[]
-      // boundaryGeoJson is Feature<Polygon|MultiPolygon>. Logic handles it.
-      const result = findClosestRoadAndConnection(boundaryGeoJson as any, roadsHelpers);
-
-      if (result) {
-        setClosestRoadData({
-          roadIndex: result.roadIndex,
-          distanceMeters: result.distanceMeters,
-          connection: result.connection.map(p => ({ lat: p[1], lng: p[0] }))
-        });
+      const { runClosestRoads } = await import('@/lib/analysisWorker');
+      setAnalysisProgress({ step: 'closestRoad', done: 0, total: 0 });
+      const nearby = await awaitRun(runClosestRoads(boundaryGeoJson, roadsHelpers, nearbyRoadCount, null, setAnalysisProgress));
+
+      if (nearby.length > 0) {
+        setStaleSteps(prev => ({ ...prev, distance: false }));
+        setNearbyRoads(nearby);
+        setClosestRoadData(closestRoadDataFor(nearby[0]));
       } else {
         alert("Could not find closest road.");
       }
 
     } catch (e) {
+      if (e instanceof AnalysisCancelledError) return;
       console.error(e);
       alert("Error calculating distance");
     }
   };
 
+  // Values against another of the nearby roads; results from the old reference are marked stale
+  const handleSelectReferenceRoad = (roadIndex: number) => {
+    const road = nearbyRoads.find(r => r.roadIndex === roadIndex);
+    if (!road || roadIndex === closestRoadData?.roadIndex) return;
+    setClosestRoadData(closestRoadDataFor(road));
+    setStaleSteps(prev => ({
+      ...prev,
+      grid: prev.grid || (gridType === 'aligned' && gridFeatures.length > 0),
+      valuation: prev.valuation || valuationResults.length > 0
+    }));
+  };
+
+  /* Road Frontage Logic */
+  const [frontageTolerance, setFrontageTolerance] = useState(DEFAULT_FRONTAGE_TOLERANCE_METERS);
+  const [frontage, setFrontage] = useState<FrontageResult | null>(null);
+
+  const handleAnalyzeFrontage = async () => {
+    if (!boundaryGeoJson || roadsHelpers.length === 0) return;
+    const { analyzeFrontage } = await import('@/lib/frontage');
+    setFrontage(analyzeFrontage(boundaryGeoJson, roadsHelpers as Feature<LineString>[], frontageTolerance));
+    setStaleSteps(prev => ({ ...prev, frontage: false }));
+  };
+
+  // One access point in the middle of each fronting stretch, for travel distance via the frontage
+  const handleFrontageAccessPoints = () => {
+    if (!frontage) return;
+    setAccessPoints(frontage.segments.map(({ coordinates: [a, b] }) => ({ lat: (a[1] + b[1]) / 2, lng: (a[0] + b[0]) / 2 })));
+    setDistanceMetric('travel');
+    setNetworkTarget('points');
+  };
+
+  /* Points of Interest Logic */
+  const [poiSelection, setPoiSelection] = useState<Record<string, boolean>>(
+    () => Object.fromEntries(POI_CATEGORIES.map(c => [c.id, DEFAULT_ANALYSIS_SETTINGS.poiCategories.includes(c.id)]))
+  );
+  const [pois, setPois] = useState<Feature<Point>[]>([]);
+  const [isFetchingPois, setIsFetchingPois] = useState(false);
+  const [poiError, setPoiError] = useState<string | null>(null);
+
+  const handleFetchPois = async () => {
+    if (!boundaryGeoJson) return;
+
+    setIsFetchingPois(true);
+    setPoiError(null);
+    setPois([]);
+
+    try {
+      const { fetchPois } = await import('@/lib/osmClient');
+      const categories = POI_CATEGORIES.filter(c => poiSelection[c.id]).map(c => c.id);
+      setPois(await fetchPois(boundaryGeoJson, bufferDistance, categories));
+    } catch (err) {
+      setPoiError(err instanceof Error ? err.message : 'Failed to fetch points of interest');
+      console.error(err);
+    } finally {
+      setIsFetchingPois(false);
+    }
+  };
+
   /* Subdivision Logic */
-  const [cellSize, setCellSize] = useState(50);
+  const [cellSize, setCellSize] = useState(DEFAULT_ANALYSIS_SETTINGS.cellSize);
+  const [gridType, setGridType] = useState<GridType>(DEFAULT_ANALYSIS_SETTINGS.gridType);
   const [isGeneratingGrid, setIsGeneratingGrid] = useState(false);
   const [gridStats, setGridStats] = useState<{ count: number } | null>(null);
   const [gridFeatures, setGridFeatures] = useState<Feature<Polygon>[]>([]);
   const [gridPaths, setGridPaths] = useState<google.maps.LatLngLiteral[][]>([]);
 
   /* Valuation Logic */
-  const [valuationMode, setValuationMode] = useState<'linear' | 'exponential'>('linear');
-  const [decayFactor, setDecayFactor] = useState(0.005);
-  const [coloredCells, setColoredCells] = useState<{ path: google.maps.LatLngLiteral[], color: string, tooltip: string }[]>([]);
+  const [decayCurve, setDecayCurve] = useState<DecayCurve>(DEFAULT_ANALYSIS_SETTINGS.decayCurve);
+  // 'closest' = value against the selected closest road only, 'network' = every fetched road weighted by class
+  const [valuationReference, setValuationReference] = useState<'closest' | 'network'>(DEFAULT_ANALYSIS_SETTINGS.valuationReference);
+  const [roadWeights, setRoadWeights] = useState<RoadClassWeights>(DEFAULT_ANALYSIS_SETTINGS.roadWeights);
+  // Composite valuation: road value blended with POI proximity factors
+  const [usePoiFactors, setUsePoiFactors] = useState(DEFAULT_ANALYSIS_SETTINGS.usePoiFactors);
+  const [roadFactorWeight, setRoadFactorWeight] = useState(DEFAULT_ANALYSIS_SETTINGS.roadFactorWeight);
+  const [poiFactorSettings, setPoiFactorSettings] = useState<Record<string, { weight: number, halfDistance: number }>>(DEFAULT_ANALYSIS_SETTINGS.poiFactorSettings);
+  // 'straight' = Euclidean distance to the road, 'travel' = shortest path along the fetched road network
+  const [distanceMetric, setDistanceMetric] = useState<'straight' | 'travel'>(DEFAULT_ANALYSIS_SETTINGS.distanceMetric);
+  const [networkTarget, setNetworkTarget] = useState<'road' | 'points'>(DEFAULT_ANALYSIS_SETTINGS.networkTarget);
+  const [accessPoints, setAccessPoints] = useState<google.maps.LatLngLiteral[]>([]);
+  const [isPlacingAccessPoints, setIsPlacingAccessPoints] = useState(false);
+  const [valuationResults, setValuationResults] = useState<CellValue[]>([]);
+  const [coloredCells, setColoredCells] = useState<ColoredCell[]>([]);
   const [valuationStats, setValuationStats] = useState<{ minV: number, maxV: number, minD: number, maxD: number } | null>(null);
 
+  /* Pricing Logic */
+  const [pricing, setPricing] = useState<PricingSettings>(DEFAULT_ANALYSIS_SETTINGS.pricing);
+  const [sharePercent, setSharePercent] = useState(20);
+  const [colorSettings, setColorSettings] = useState<ColorSettings>(DEFAULT_ANALYSIS_SETTINGS.colors);
+  // Drives the cell colours on the map, in exports and in the legend
+  const valueScale = createValueScale(valuationResults.map(r => r.value), colorSettings);
+  const pricedCells = colorCells(priceCells(valuationResults, pricing), valueScale);
+  const pricingSummary = pricedCells.length > 0 ? summarizePricing(pricedCells, sharePercent) : null;
+
+  const updatePricing = <K extends keyof PricingSettings>(key: K, value: PricingSettings[K]) => {
+    setPricing(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateColorSettings = <K extends keyof ColorSettings>(key: K, value: ColorSettings[K]) => {
+    setColorSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  /* Scenario Logic */
+  const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [showDifference, setShowDifference] = useState(false);
+
+  const currentSettings = (): AnalysisSettings => ({
+    bufferDistance,
+    roadTypes,
+    cellSize,
+    gridType,
+    decayCurve,
+    valuationReference,
+    roadWeights,
+    distanceMetric,
+    networkTarget,
+    accessPoints: accessPoints.map(p => [p.lng, p.lat]),
+    poiCategories: POI_CATEGORIES.filter(c => poiSelection[c.id]).map(c => c.id),
+    usePoiFactors,
+    roadFactorWeight,
+    poiFactorSettings,
+    pricing,
+    colors: colorSettings
+  });
+
+  const applySettings = (settings: AnalysisSettings) => {
+    setBufferDistance(settings.bufferDistance);
+    setRoadTypes(prev => ({ ...prev, ...settings.roadTypes }));
+    setCellSize(settings.cellSize);
+    setGridType(settings.gridType);
+    setDecayCurve(settings.decayCurve);
+    setValuationReference(settings.valuationReference);
+    setRoadWeights(settings.roadWeights);
+    setDistanceMetric(settings.distanceMetric);
+    setNetworkTarget(settings.networkTarget);
+    setAccessPoints(settings.accessPoints.map(p => ({ lat: p[1], lng: p[0] })));
+    setPoiSelection(Object.fromEntries(POI_CATEGORIES.map(c => [c.id, settings.poiCategories.includes(c.id)])));
+    setUsePoiFactors(settings.usePoiFactors);
+    setRoadFactorWeight(settings.roadFactorWeight);
+    setPoiFactorSettings(prev => ({ ...prev, ...settings.poiFactorSettings }));
+    setPricing(settings.pricing);
+    setColorSettings(settings.colors);
+  };
+
+  const handleSaveScenario = (name: string) => {
+    if (valuationResults.length === 0) return;
+    const scenario = createScenario(
+      name,
+      currentSettings(),
+      roadsHelpers as Feature<LineString>[],
+      closestRoadFor(closestRoadData),
+      valuationResults
+    );
+    setScenarios(prev => [...prev, scenario]);
+    setActiveScenarioId(scenario.id);
+  };
+
+  // Puts the scenario's settings, roads, grid and results back on the map
+  const handleLoadScenario = (id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+
+    applySettings(scenario.settings);
+    setRoadsHelpers(scenario.roads);
+    setRoadsPaths(scenario.roads.map(road => toPath(road.geometry.coordinates)));
+    setRoadsStats(null);
+    setClosestRoadData(closestRoadDataFor(scenario.closestRoad));
+    setNearbyRoads([]);
+    setFrontage(null);
+
+    const cells = scenario.cells.map(c => c.feature);
+    setGridFeatures(cells);
+    setGridPaths(cells.map(cell => toPath(cell.geometry.coordinates[0])));
+    setGridStats({ count: cells.length });
+
+    setValuationResults(scenario.cells);
+    setColoredCells(toColoredCells(scenario.cells, scenario.roads));
+    setValuationStats(valuationStatsFor(scenario.cells));
+    setActiveScenarioId(id);
+    setShowDifference(false);
+  };
+
+  const handleDeleteScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+    setCompareIds(prev => prev.filter(c => c !== id));
+    if (activeScenarioId === id) setActiveScenarioId(null);
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  // Valuation cells in the chosen colour scheme and classes
+  const valueCells = coloredCells.map(cell => ({ ...cell, color: valueScale.color(cell.value) }));
+
+  // B - A on A's cells, where A and B are the first two scenarios ticked for comparison
+  const [compareA, compareB] = compareIds.map(id => scenarios.find(s => s.id === id));
+  // Saved scenarios never change, so the difference only needs recomputing when the pair does
+  const scenarioDifference = useMemo(
+    () => (showDifference && compareA && compareB ? diffScenarios(compareA, compareB) : null),
+    [showDifference, compareA, compareB]
+  );
+  const differenceCells: ColoredCell[] | null = scenarioDifference && scenarioDifference.map(d => ({
+    path: toPath(d.feature.geometry.coordinates[0]),
+    color: d.color,
+    value: d.delta ?? NaN,
+    tooltip: `A: ${d.baseValue.toFixed(2)}, B: ${d.otherValue === null ? 'n/a' : d.otherValue.toFixed(2)}` +
+      (d.delta === null ? '' : `, Change: ${d.delta >= 0 ? '+' : ''}${d.delta.toFixed(2)}`)
+  }));
+
+  /* Contour Band Logic */
+  const [contourField, setContourField] = useState<ContourField>('value');
+  const [contourBreaks, setContourBreaks] = useState(CONTOUR_FIELDS.value.defaultBreaks.join(', '));
+  // Bands with the results they were generated from; hidden once those are replaced
+  const [contourResult, setContourResult] = useState<{ source: CellValue[], bands: ContourBand[] } | null>(null);
+  const [showContours, setShowContours] = useState(false);
+  const contours = contourResult && contourResult.source === valuationResults
+    ? contourResult.bands.map(band => ({ ...band, color: valueScale.color(band.meanValue) }))
+    : null;
+  const shownContours = showContours && contours && !differenceCells ? contours : null;
+
+  const handleContourFieldChange = (field: ContourField) => {
+    setContourField(field);
+    setContourBreaks(CONTOUR_FIELDS[field].defaultBreaks.join(', '));
+  };
+
+  const handleGenerateContours = async () => {
+    if (!boundaryGeoJson || valuationResults.length === 0) return;
+    const breaks = contourBreaks.split(/[\s,;]+/).filter(Boolean).map(Number).filter(Number.isFinite);
+    const { contourBands } = await import('@/lib/contours');
+    setContourResult({ source: valuationResults, bands: contourBands(pricedCells, boundaryGeoJson, contourField, breaks, valueScale) });
+    setShowContours(true);
+  };
+
+  /* Cell Inspector Logic */
+  // Valuation cell pinned by clicking it on the map; hidden once its results are replaced or while showing a difference
+  const [inspectedCell, setInspectedCell] = useState<CellValue | null>(null);
+  const inspectedIndex = inspectedCell && !differenceCells ? valuationResults.indexOf(inspectedCell) : -1;
+  const inspection = inspectedIndex >= 0 ? inspectCell(pricedCells[inspectedIndex], roadsHelpers as Feature<LineString>[]) : null;
+
+  const handleCellClick = (index: number) => {
+    if (differenceCells) return;
+    setInspectedCell(prev => (prev === valuationResults[index] ? null : valuationResults[index] ?? null));
+  };
+
   const handleGenerateGrid = async () => {
     if (!boundaryGeoJson) return;
     setIsGeneratingGrid(true);
@@ -261,81 +592,234 @@ export default function Home() {
     setGridPaths([]);
     setGridFeatures([]);
     setColoredCells([]);
+    setValuationResults([]);
     setValuationStats(null);
 
     try {
-      const { generateSubdivisionGrid } = await import('@/lib/geo');
-
-      const cells = generateSubdivisionGrid(boundaryGeoJson as any, cellSize);
+      const { runGrid } = await import('@/lib/analysisWorker');
+      setAnalysisProgress({ step: 'grid', done: 0, total: 0 });
+      const cells = await awaitRun(runGrid(
+        boundaryGeoJson, roadsHelpers as Feature<LineString>[], closestRoadFor(closestRoadData), { cellSize, gridType }, setAnalysisProgress
+      ));
       setGridFeatures(cells);
 
-      const paths = cells.map(cell => {
-        if (cell.geometry.type === 'Polygon') {
-          const ring = cell.geometry.coordinates[0];
-          return ring.map(c => ({ lat: c[1], lng: c[0] }));
-        }
-        return [];
-      }).filter(p => p.length > 0);
-
+      const paths = cells.map(cell => toPath(cell.geometry.coordinates[0]));
       setGridPaths(paths);
       setGridStats({ count: paths.length });
+      setStaleSteps(prev => ({ ...prev, grid: false }));
 
     } catch (e) {
+      if (e instanceof AnalysisCancelledError) return;
       console.error(e);
-      alert("Error generating grid");
+      alert(e instanceof AnalysisError ? e.message : "Error generating grid");
     } finally {
       setIsGeneratingGrid(false);
     }
   };
 
   const handleCalculateValuation = async () => {
-    // Requirements: gridFeatures, closestRoadIndex, roadsHelpers
-    if (gridFeatures.length === 0 || closestRoadData === null || roadsHelpers.length === 0) {
-      alert("Please generate grid and select a closest road first.");
-      return;
+    try {
+      const { runValuation } = await import('@/lib/analysisWorker');
+      const roads = roadsHelpers as Feature<LineString>[];
+      setAnalysisProgress({ step: 'valuation', done: 0, total: gridFeatures.length });
+      const results = await awaitRun(runValuation(
+        gridFeatures, roads, closestRoadFor(closestRoadData), currentSettings(), pois, setAnalysisProgress
+      ));
+
+      setColoredCells(toColoredCells(results, roads));
+      setValuationResults(results);
+      setActiveScenarioId(null);
+      setStaleSteps(prev => ({ ...prev, valuation: false }));
+
+      setValuationStats(valuationStatsFor(results));
+
+    } catch (e) {
+      if (e instanceof AnalysisCancelledError) return;
+      console.error(e);
+      alert(e instanceof AnalysisError ? e.message : "Error calculating valuation");
     }
+  };
 
-    const targetRoad = roadsHelpers[closestRoadData.roadIndex];
-    // closestRoadData.roadIndex is index in roadsPaths/roadsHelpers.
+  /* Export Logic */
+  const handleExport = async (format: 'geojson' | 'kml' | 'csv' | 'shp') => {
+    if (valuationResults.length === 0) return;
 
     try {
-      const { calculateLandValues } = await import('@/lib/geo');
-      // roadFeature must be LineString Feature.
-      const results = calculateLandValues(gridFeatures, targetRoad as Feature<LineString>, valuationMode, decayFactor);
-
-      // Convert to colored cells
-      const colored = results.map(r => {
-        const path = (r.feature.geometry.coordinates[0] as number[][]).map(c => ({ lat: c[1], lng: c[0] }));
-        return {
-          path: path,
-          color: r.color,
-          tooltip: `Dist: ${Math.round(r.distance)}m, Val: ${r.value.toFixed(2)}`
-        };
-      });
+      const { toGeoJSON, toKML, toCSV, toShapefileZip, downloadBlob } = await import('@/lib/export');
+      const layers = {
+        boundary: boundaryGeoJson,
+        roads: roadsHelpers as Feature<LineString>[],
+        connection: closestRoadData ? closestRoadData.connection.map(p => [p.lng, p.lat]) : null,
+        cells: pricedCells,
+        contours: contours || undefined
+      };
+
+      if (format === 'geojson') {
+        downloadBlob(toGeoJSON(layers), 'land-value.geojson', 'application/geo+json');
+      } else if (format === 'kml') {
+        downloadBlob(toKML(layers), 'land-value.kml', 'application/vnd.google-earth.kml+xml');
+      } else if (format === 'csv') {
+        downloadBlob(toCSV(layers), 'land-value.csv', 'text/csv');
+      } else {
+        downloadBlob(await toShapefileZip(layers), 'land-value-shapefile.zip', 'application/zip');
+      }
+    } catch (e) {
+      console.error(e);
+      alert("Error exporting results");
+    }
+  };
 
-      setColoredCells(colored);
-
-      if (results.length > 0) {
-        const dists = results.map(r => r.distance);
-        const vals = results.map(r => r.value);
-        setValuationStats({
-          minD: Math.min(...dists),
-          maxD: Math.max(...dists),
-          minV: Math.min(...vals),
-          maxV: Math.max(...vals)
-        });
+  /* Project Logic */
+  const [isRestoringProject, setIsRestoringProject] = useState(false);
+  const [projectStatus, setProjectStatus] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+
+  const currentProject = async (includeRoads: boolean) => {
+    const { createProject } = await import('@/lib/project');
+    return createProject(
+      boundaryGeoJson!,
+      currentSettings(),
+      closestRoadData ? closestRoadData.roadIndex : null,
+      includeRoads ? roadsHelpers as Feature<LineString>[] : undefined
+    );
+  };
+
+  // Re-runs a saved analysis: roads (from the file, or fetched again), closest road, grid and valuation
+  const restoreProject = async (project: ProjectFile) => {
+    setIsRestoringProject(true);
+    setProjectStatus(null);
+    setProjectError(null);
+
+    try {
+      const { fetchRoads, fetchPois } = await import('@/lib/osmClient');
+      const { selectedRoadTypes } = await import('@/lib/analysis');
+      const { runClosestRoads, runGrid, runValuation } = await import('@/lib/analysisWorker');
+      const { boundary, settings } = project;
+
+      updateBoundaryState(boundary);
+      applySettings(settings);
+      setClosestRoadData(null);
+      setNearbyRoads([]);
+      setFrontage(null);
+      setGridFeatures([]);
+      setGridPaths([]);
+      setGridStats(null);
+      setValuationResults([]);
+      setColoredCells([]);
+      setValuationStats(null);
+      setActiveScenarioId(null);
+
+      const roads = project.roads ?? await fetchRoads(boundary, settings.bufferDistance, selectedRoadTypes(settings));
+      setRoadsHelpers(roads);
+      setRoadsPaths(roads.map(road => toPath(road.geometry.coordinates)));
+      setRoadsStats(null);
+      if (roads.length === 0) {
+        setProjectStatus("Project opened, but no roads were found around the boundary.");
+        return;
       }
 
+      setAnalysisProgress({ step: 'closestRoad', done: 0, total: 0 });
+      const nearby = await awaitRun(runClosestRoads(boundary, roads, nearbyRoadCount, project.closestRoadIndex, setAnalysisProgress));
+      const closestRoad = nearby.find(r => r.roadIndex === project.closestRoadIndex) ?? nearby[0] ?? null;
+      setNearbyRoads(nearby);
+      setClosestRoadData(closestRoadDataFor(closestRoad));
+
+      const projectPois = settings.usePoiFactors && settings.poiCategories.length > 0
+        ? await fetchPois(boundary, settings.bufferDistance, settings.poiCategories)
+        : [];
+      setPois(projectPois);
+
+      setAnalysisProgress({ step: 'grid', done: 0, total: 0 });
+      const cells = await awaitRun(runGrid(boundary, roads, closestRoad, settings, setAnalysisProgress));
+      setGridFeatures(cells);
+      setGridPaths(cells.map(cell => toPath(cell.geometry.coordinates[0])));
+      setGridStats({ count: cells.length });
+
+      setAnalysisProgress({ step: 'valuation', done: 0, total: cells.length });
+      const results = await awaitRun(runValuation(cells, roads, closestRoad, settings, projectPois, setAnalysisProgress));
+      setValuationResults(results);
+      setColoredCells(toColoredCells(results, roads));
+      setValuationStats(valuationStatsFor(results));
+      setStaleSteps({ distance: false, frontage: false, grid: false, valuation: false });
+      setProjectStatus("Project restored.");
     } catch (e) {
+      if (e instanceof AnalysisCancelledError) {
+        setProjectStatus("Restore cancelled.");
+        return;
+      }
       console.error(e);
-      alert("Error calculating valuation");
+      setProjectError(e instanceof Error ? e.message : "Failed to restore project");
+    } finally {
+      setIsRestoringProject(false);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    if (!boundaryGeoJson) return;
+    const { serializeProject } = await import('@/lib/project');
+    const { downloadBlob } = await import('@/lib/export');
+    downloadBlob(serializeProject(await currentProject(true)), 'land-value-project.json', 'application/json');
+  };
+
+  const handleProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-selecting the same file
+    if (!file) return;
+    try {
+      const { parseProject } = await import('@/lib/project');
+      await restoreProject(parseProject(await file.text()));
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : "Could not open project file");
+    }
+  };
+
+  const handleShareLink = async () => {
+    if (!boundaryGeoJson) return;
+    setProjectError(null);
+    try {
+      const { encodeProjectForUrl } = await import('@/lib/project');
+      const url = `${window.location.origin}${window.location.pathname}#project=${await encodeProjectForUrl(await currentProject(false))}`;
+      window.history.replaceState(null, '', url);
+      try {
+        await navigator.clipboard.writeText(url);
+        setProjectStatus(`Share link copied to the clipboard (${url.length} characters).`);
+      } catch {
+        setProjectStatus("Share link is in the address bar; copy it from there.");
+      }
+    } catch (err) {
+      console.error(err);
+      setProjectError("Could not create a share link");
     }
   };
 
+  // Opening a share link (#project=...) restores its analysis
+  useEffect(() => {
+    const match = window.location.hash.match(/^#project=(.+)$/);
+    if (!match) return;
+    import('@/lib/project')
+      .then(({ decodeProjectFromUrl }) => decodeProjectFromUrl(match[1]))
+      .then(restoreProject)
+      .catch(err => setProjectError(err instanceof Error ? err.message : "Could not open the shared link"));
+    // Only on first load; later hash changes come from handleShareLink itself
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const toggleRoadType = (type: keyof typeof roadTypes) => {
     setRoadTypes(prev => ({ ...prev, [type]: !prev[type] }));
   };
 
+  const addAccessPoint = (pt: google.maps.LatLngLiteral) => {
+    setAccessPoints(prev => [...prev, pt]);
+  };
+
+  const updatePoiFactor = (category: string, key: 'weight' | 'halfDistance', value: number) => {
+    setPoiFactorSettings(prev => ({ ...prev, [category]: { ...prev[category], [key]: value } }));
+  };
+
+  const updateRoadWeight = (roadClass: string, weight: number) => {
+    setRoadWeights(prev => ({ ...prev, [roadClass]: weight }));
+  };
+
   return (
     <main style={{ display: 'flex', flexDirection: 'row', height: '100vh', width: '100vw' }}>
       {/* Sidebar */}
@@ -401,6 +885,129 @@ export default function Home() {
             )}
           </div>
 
+          {/* Import UI */}
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '6px', color: '#666' }}>
+              Or import a boundary (GeoJSON, KML, GPX, WKT)
+            </label>
+            <input
+              type="file"
+              accept=".geojson,.json,.kml,.gpx,.wkt,.txt"
+              onChange={handleBoundaryFile}
+              style={{ width: '100%', fontSize: '0.85rem', marginBottom: '8px' }}
+            />
+            <textarea
+              placeholder="...or paste GeoJSON / KML / WKT here"
+              value={pastedBoundary}
+              onChange={(e) => setPastedBoundary(e.target.value)}
+              rows={3}
+              style={{ width: '100%', padding: '8px', borderRadius: '6px', border: '1px solid #ddd', fontSize: '0.8rem', fontFamily: 'monospace', boxSizing: 'border-box' }}
+            />
+            {pastedBoundary.trim() && (
+              <button
+                onClick={() => importBoundary(pastedBoundary)}
+                style={{ marginTop: '6px', padding: '6px 12px', background: 'var(--primary)', color: 'white', border: 'none', borderRadius: '6px', cursor: 'pointer' }}
+              >
+                Load Pasted Boundary
+              </button>
+            )}
+            {importError && <div style={{ color: 'red', fontSize: '0.85rem', marginTop: '8px' }}>{importError}</div>}
+          </div>
+
+          {/* Project File & Share Link */}
+          <div style={{ marginBottom: '1.5rem' }}>
+            <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '6px', color: '#666' }}>
+              Open a saved project
+            </label>
+            <input
+              type="file"
+              accept=".json"
+              onChange={handleProjectFile}
+              disabled={isRestoringProject}
+              style={{ width: '100%', fontSize: '0.85rem', marginBottom: '8px' }}
+            />
+            {boundaryGeoJson && (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button
+                  onClick={handleSaveProject}
+                  style={{ flex: 1, padding: '8px', background: 'white', color: '#333', border: '1px solid #ccc', borderRadius: '8px', cursor: 'pointer' }}
+                >
+                  Save Project
+                </button>
+                <button
+                  onClick={handleShareLink}
+                  style={{ flex: 1, padding: '8px', background: 'white', color: '#333', border: '1px solid #ccc', borderRadius: '8px', cursor: 'pointer' }}
+                >
+                  Copy Share Link
+                </button>
+              </div>
+            )}
+            {isRestoringProject && <div style={{ color: '#666', fontSize: '0.85rem', marginTop: '8px' }}>Restoring project...</div>}
+            {isRestoringProject && analysisProgress && <AnalysisProgressBar progress={analysisProgress} onCancel={handleCancelRun} />}
+            {projectStatus && <div style={{ color: '#2e7d32', fontSize: '0.85rem', marginTop: '8px' }}>{projectStatus}</div>}
+            {projectError && <div style={{ color: 'red', fontSize: '0.85rem', marginTop: '8px' }}>{projectError}</div>}
+          </div>
+
+          {/* Draw / Edit UI */}
+          <div style={{ marginBottom: '1.5rem' }}>
+            {isDrawingBoundary ? (
+              <div>
+                <div style={{ fontSize: '0.85rem', color: '#666', marginBottom: '8px' }}>
+                  Click the map to add vertices ({drawPath.length} so far).
+                </div>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <button
+                    onClick={finishDrawing}
+                    disabled={drawPath.length < 3}
+                    style={{ flex: 1, padding: '8px', background: 'var(--primary)', color: 'white', border: 'none', borderRadius: '6px', cursor: 'pointer', opacity: drawPath.length < 3 ? 0.5 : 1 }}
+                  >
+                    Finish
+                  </button>
+                  <button
+                    onClick={() => setDrawPath(prev => prev.slice(0, -1))}
+                    disabled={drawPath.length === 0}
+                    style={{ flex: 1, padding: '8px', background: 'white', border: '1px solid #ccc', borderRadius: '6px', cursor: 'pointer' }}
+                  >
+                    Undo
+                  </button>
+                  <button
+                    onClick={() => { setIsDrawingBoundary(false); setDrawPath([]); }}
+                    style={{ flex: 1, padding: '8px', background: 'white', border: '1px solid #ccc', borderRadius: '6px', cursor: 'pointer' }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <button
+                  onClick={startDrawing}
+                  style={{ flex: 1, padding: '8px', background: 'white', color: 'var(--primary)', border: '1px solid var(--primary)', borderRadius: '6px', cursor: 'pointer' }}
+                >
+                  Draw Boundary
+                </button>
+                {boundaryPaths && (
+                  <button
+                    onClick={() => setIsEditingBoundary(prev => !prev)}
+                    style={{
+                      flex: 1, padding: '8px', borderRadius: '6px', cursor: 'pointer',
+                      border: '1px solid var(--primary)',
+                      background: isEditingBoundary ? 'var(--primary)' : 'white',
+                      color: isEditingBoundary ? 'white' : 'var(--primary)'
+                    }}
+                  >
+                    {isEditingBoundary ? 'Done Editing' : 'Edit Vertices'}
+                  </button>
+                )}
+              </div>
+            )}
+            {isEditingBoundary && (
+              <div style={{ fontSize: '0.8rem', color: '#888', marginTop: '6px' }}>
+                Drag a vertex to move it, drag a midpoint to add one, right-click a vertex to delete it.
+              </div>
+            )}
+          </div>
+
           <button
             onClick={handleClear}
             style={{
@@ -427,6 +1034,11 @@ export default function Home() {
               {areaSqM ? areaSqM.toLocaleString(undefined, { maximumFractionDigits: 0 }) : '---'}
               <span style={{ fontSize: '1rem', color: '#888', marginLeft: '4px' }}>m²</span>
             </span>
+            {boundaryPaths && (boundaryPaths.length > 1 || boundaryPaths.some(rings => rings.length > 1)) && (
+              <div style={{ fontSize: '0.8rem', color: '#888', marginTop: '6px' }}>
+                {boundaryPaths.length} part(s), {boundaryPaths.reduce((n, rings) => n + rings.length - 1, 0)} hole(s)
+              </div>
+            )}
           </div>
 
           {/* Roads Section */}
@@ -496,6 +1108,7 @@ export default function Home() {
                 <div style={{ marginTop: '1.5rem' }}>
                   <button
                     onClick={handleComputeClosestRoad}
+                    disabled={analysisProgress !== null}
                     style={{
                       width: '100%',
                       padding: '10px',
@@ -509,6 +1122,16 @@ export default function Home() {
                   >
                     Calculate Distance to Main Road
                   </button>
+                  <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginTop: '8px', fontSize: '0.85rem', color: '#555' }}>
+                    Closest roads to list
+                    <input
+                      type="number" min="1" max="20" step="1"
+                      value={nearbyRoadCount}
+                      onChange={(e) => setNearbyRoadCount(Math.min(20, Math.max(1, Math.round(Number(e.target.value)) || 1)))}
+                      style={{ width: '64px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                  </label>
+                  {progressBarFor('closestRoad')}
                 </div>
               )}
 
@@ -527,13 +1150,178 @@ export default function Home() {
                     {Math.round(closestRoadData.distanceMeters)}
                     <span style={{ fontSize: '1rem', fontWeight: '500', marginLeft: '4px' }}>m</span>
                   </span>
+                  {staleSteps.distance && <StaleNote />}
                 </div>
               )}
 
+              {nearbyRoads.length > 1 && (
+                <div style={{ marginTop: '1rem' }}>
+                  <span style={{ fontSize: '0.85rem', fontWeight: '600', color: '#333', display: 'block', marginBottom: '6px' }}>
+                    Closest roads <span style={{ fontWeight: '400', color: '#888' }}>(valuation reference)</span>
+                  </span>
+                  {nearbyRoads.map(road => (
+                    <label key={road.roadIndex} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 8px', fontSize: '0.85rem', cursor: 'pointer', borderRadius: '6px', background: road.roadIndex === closestRoadData?.roadIndex ? '#fff3e0' : 'transparent' }}>
+                      <input
+                        type="radio"
+                        name="reference-road"
+                        checked={road.roadIndex === closestRoadData?.roadIndex}
+                        onChange={() => handleSelectReferenceRoad(road.roadIndex)}
+                        disabled={analysisProgress !== null}
+                      />
+                      <span style={{ flex: 1, minWidth: 0 }}>
+                        {road.name || road.ref || 'Unnamed road'}
+                        {road.name && road.ref && <span style={{ color: '#888' }}> ({road.ref})</span>}
+                        <span style={{ display: 'block', fontSize: '0.75rem', color: '#888' }}>{road.highway}</span>
+                      </span>
+                      <span style={{ fontWeight: '600', color: '#555' }}>{Math.round(road.distanceMeters)} m</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
+              {/* Road Frontage */}
+              {roadsPaths.length > 0 && (
+                <div style={{ marginTop: '1.5rem' }}>
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <button
+                      onClick={handleAnalyzeFrontage}
+                      style={{
+                        flex: 1,
+                        padding: '10px',
+                        backgroundColor: 'white',
+                        color: 'var(--primary)',
+                        border: '1px solid var(--primary)',
+                        borderRadius: '8px',
+                        fontWeight: '600',
+                        cursor: 'pointer'
+                      }}
+                    >
+                      Analyze Road Frontage
+                    </button>
+                    <label style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '0.85rem', color: '#555' }}>
+                      within
+                      <input
+                        type="number" min="0" step="1"
+                        value={frontageTolerance}
+                        onChange={(e) => setFrontageTolerance(Math.max(0, Number(e.target.value)))}
+                        style={{ width: '56px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                      m
+                    </label>
+                  </div>
+
+                  {frontage && (
+                    <div style={{ marginTop: '1rem', padding: '12px', background: '#f5f5f5', borderRadius: '8px', fontSize: '0.85rem', color: '#555' }}>
+                      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                        <span>
+                          Frontage: <strong>{Math.round(frontage.frontageMeters)} m</strong>
+                          {frontage.perimeterMeters > 0 && <> ({Math.round(100 * frontage.frontageMeters / frontage.perimeterMeters)}% of {Math.round(frontage.perimeterMeters)} m perimeter)</>}
+                        </span>
+                        {frontage.isCornerPlot && (
+                          <span style={{ padding: '2px 8px', background: '#fff3e0', color: '#e65100', borderRadius: '10px', fontWeight: '600', fontSize: '0.75rem' }}>
+                            Corner plot
+                          </span>
+                        )}
+                      </div>
+                      {Object.entries(frontage.byClass)
+                        .sort((a, b) => b[1] - a[1])
+                        .map(([highway, meters]) => (
+                          <div key={highway} style={{ display: 'flex', alignItems: 'center', marginTop: '4px' }}>
+                            <span style={{ width: '12px', height: '3px', background: FRONTAGE_CLASS_COLORS[highway] || FRONTAGE_FALLBACK_COLOR, marginRight: '6px' }}></span>
+                            <span style={{ flex: 1 }}>{highway}</span>
+                            <span>{Math.round(meters)} m</span>
+                          </div>
+                        ))}
+                      {frontage.roads.length > 0 && (
+                        <div style={{ marginTop: '8px', fontSize: '0.8rem', color: '#777' }}>
+                          {frontage.roads.map(r => `${r.name || r.ref || 'Unnamed road'} ${Math.round(r.lengthMeters)} m`).join(' · ')}
+                        </div>
+                      )}
+                      {frontage.roads.length === 0 && (
+                        <div style={{ marginTop: '4px' }}>No road runs within {frontage.toleranceMeters} m of the boundary.</div>
+                      )}
+                      {frontage.segments.length > 0 && (
+                        <button
+                          onClick={handleFrontageAccessPoints}
+                          style={{ marginTop: '8px', padding: '4px 10px', fontSize: '0.8rem', background: 'white', border: '1px solid #ccc', borderRadius: '6px', cursor: 'pointer' }}
+                        >
+                          Use as Access Points
+                        </button>
+                      )}
+                      {staleSteps.frontage && <StaleNote />}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Points of Interest */}
+              <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
+                <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Points of Interest</h2>
+
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', marginBottom: '1rem' }}>
+                  {POI_CATEGORIES.map((category) => (
+                    <label key={category.id} style={{ display: 'flex', alignItems: 'center', fontSize: '0.85rem', cursor: 'pointer', padding: '4px 8px', background: '#f5f5f5', borderRadius: '12px' }}>
+                      <input
+                        type="checkbox"
+                        checked={poiSelection[category.id]}
+                        onChange={() => setPoiSelection(prev => ({ ...prev, [category.id]: !prev[category.id] }))}
+                        style={{ marginRight: '6px' }}
+                      />
+                      <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: category.color, marginRight: '6px' }}></span>
+                      {category.label}
+                    </label>
+                  ))}
+                </div>
+
+                <button
+                  onClick={handleFetchPois}
+                  disabled={isFetchingPois}
+                  style={{
+                    width: '100%',
+                    padding: '10px',
+                    backgroundColor: 'white',
+                    color: 'var(--primary)',
+                    border: '1px solid var(--primary)',
+                    borderRadius: '8px',
+                    fontWeight: '600',
+                    cursor: 'pointer'
+                  }}
+                >
+                  {isFetchingPois ? 'Scanning...' : 'Fetch Points of Interest'}
+                </button>
+
+                {poiError && (
+                  <div style={{ color: 'red', fontSize: '0.85rem', marginTop: '8px' }}>
+                    {poiError}
+                  </div>
+                )}
+                {pois.length > 0 && (
+                  <div style={{ marginTop: '1rem', fontSize: '0.85rem', color: '#555', background: '#f3e5f5', padding: '10px', borderRadius: '6px' }}>
+                    {POI_CATEGORIES.filter(c => poiSelection[c.id]).map(c => (
+                      <div key={c.id}>{c.label}: <strong>{pois.filter(p => p.properties?.category === c.id).length}</strong></div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Subdivision Grid */}
               <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
                 <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Subdivision</h2>
 
+                <div style={{ marginBottom: '1rem' }}>
+                  <label style={{ fontSize: '0.85rem', color: '#666', marginRight: '10px' }}>Grid Type:</label>
+                  <select
+                    value={gridType}
+                    onChange={(e) => setGridType(e.target.value as GridType)}
+                    style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                  >
+                    <option value="square">Square</option>
+                    <option value="hexagon">Hexagon</option>
+                    <option value="triangle">Triangle</option>
+                    <option value="aligned" disabled={!closestRoadData}>Square (aligned to closest road)</option>
+                  </select>
+                </div>
+
                 <div style={{ marginBottom: '1rem' }}>
                   <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '6px', color: '#666' }}>
                     Cell Size (meters)
@@ -551,7 +1339,7 @@ export default function Home() {
 
                 <button
                   onClick={handleGenerateGrid}
-                  disabled={isGeneratingGrid}
+                  disabled={isGeneratingGrid || analysisProgress !== null}
                   style={{
                     width: '100%',
                     padding: '10px',
@@ -565,50 +1353,163 @@ export default function Home() {
                 >
                   {isGeneratingGrid ? 'Generating...' : 'Generate Land Grid'}
                 </button>
+                {progressBarFor('grid')}
 
                 {gridStats && (
                   <div style={{ marginTop: '1rem', fontSize: '0.85rem', color: '#555', background: '#f5f5f5', padding: '10px', borderRadius: '6px' }}>
                     Cells Generated: <strong>{gridStats.count}</strong>
+                    {staleSteps.grid && <StaleNote />}
                   </div>
                 )}
               </div>
 
               {/* Valuation Section */}
-              {gridPaths.length > 0 && closestRoadData && (
+              {gridPaths.length > 0 && (closestRoadData || roadsPaths.length > 0) && (
                 <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
                   <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Land Valuation</h2>
 
+                  <DecayCurveEditor curve={decayCurve} onChange={setDecayCurve} />
+
                   <div style={{ marginBottom: '1rem' }}>
-                    <label style={{ fontSize: '0.85rem', color: '#666', marginRight: '10px' }}>Mode:</label>
+                    <label style={{ fontSize: '0.85rem', color: '#666', marginRight: '10px' }}>Reference:</label>
                     <select
-                      value={valuationMode}
-                      onChange={(e) => setValuationMode(e.target.value as any)}
+                      value={valuationReference}
+                      onChange={(e) => setValuationReference(e.target.value as 'closest' | 'network')}
                       style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
                     >
-                      <option value="linear">Linear Decay</option>
-                      <option value="exponential">Exponential Decay</option>
+                      <option value="closest">Closest Road Only</option>
+                      <option value="network">All Roads (weighted by class)</option>
                     </select>
                   </div>
 
-                  {valuationMode === 'exponential' && (
+                  {valuationReference === 'closest' && (
+                    <div style={{ marginBottom: '1rem' }}>
+                      <label style={{ fontSize: '0.85rem', color: '#666', marginRight: '10px' }}>Distance:</label>
+                      <select
+                        value={distanceMetric}
+                        onChange={(e) => setDistanceMetric(e.target.value as 'straight' | 'travel')}
+                        style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      >
+                        <option value="straight">Straight Line</option>
+                        <option value="travel">Travel (road network)</option>
+                      </select>
+
+                      {distanceMetric === 'travel' && (
+                        <div style={{ marginTop: '8px', fontSize: '0.85rem' }}>
+                          <label style={{ color: '#666', marginRight: '10px' }}>Target:</label>
+                          <select
+                            value={networkTarget}
+                            onChange={(e) => setNetworkTarget(e.target.value as 'road' | 'points')}
+                            style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                          >
+                            <option value="road">Selected Main Road</option>
+                            <option value="points">Access Points</option>
+                          </select>
+
+                          {networkTarget === 'points' && (
+                            <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+                              <button
+                                onClick={() => setIsPlacingAccessPoints(prev => !prev)}
+                                style={{
+                                  padding: '6px 10px', borderRadius: '6px', cursor: 'pointer',
+                                  border: '1px solid var(--primary)',
+                                  background: isPlacingAccessPoints ? 'var(--primary)' : 'white',
+                                  color: isPlacingAccessPoints ? 'white' : 'var(--primary)'
+                                }}
+                              >
+                                {isPlacingAccessPoints ? 'Done' : 'Add on Map'}
+                              </button>
+                              <button
+                                onClick={() => setAccessPoints([])}
+                                disabled={accessPoints.length === 0}
+                                style={{ padding: '6px 10px', borderRadius: '6px', border: '1px solid #ccc', background: 'white', cursor: 'pointer' }}
+                              >
+                                Clear
+                              </button>
+                              <span style={{ color: '#666' }}>{accessPoints.length} point(s)</span>
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {valuationReference === 'network' && (
                     <div style={{ marginBottom: '1rem' }}>
                       <label style={{ display: 'block', fontSize: '0.85rem', marginBottom: '6px', color: '#666' }}>
-                        Decay Factor (k): {decayFactor}
+                        Road Class Weights
                       </label>
-                      <input
-                        type="range"
-                        min="0.001"
-                        max="0.05"
-                        step="0.001"
-                        value={decayFactor}
-                        onChange={(e) => setDecayFactor(Number(e.target.value))}
-                        style={{ width: '100%' }}
-                      />
+                      {Object.keys(roadTypes).map((type) => (
+                        <div key={type} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '0.85rem', marginBottom: '4px' }}>
+                          <span style={{ flex: 1 }}>{type}</span>
+                          <input
+                            type="number"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={roadWeights[type] ?? 0}
+                            onChange={(e) => updateRoadWeight(type, Number(e.target.value))}
+                            style={{ width: '80px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {pois.length > 0 && (
+                    <div style={{ marginBottom: '1rem' }}>
+                      <label style={{ display: 'flex', alignItems: 'center', fontSize: '0.85rem', color: '#666', cursor: 'pointer' }}>
+                        <input
+                          type="checkbox"
+                          checked={usePoiFactors}
+                          onChange={() => setUsePoiFactors(prev => !prev)}
+                          style={{ marginRight: '6px' }}
+                        />
+                        Include POI proximity factors
+                      </label>
+
+                      {usePoiFactors && (
+                        <div style={{ marginTop: '8px', fontSize: '0.85rem' }}>
+                          <div style={{ display: 'flex', gap: '8px', color: '#888', fontSize: '0.75rem', marginBottom: '4px' }}>
+                            <span style={{ flex: 1 }}>Factor</span>
+                            <span style={{ width: '64px' }}>Weight</span>
+                            <span style={{ width: '72px' }}>Half at (m)</span>
+                          </div>
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+                            <span style={{ flex: 1 }}>Road proximity</span>
+                            <input
+                              type="number" min="0" step="0.1"
+                              value={roadFactorWeight}
+                              onChange={(e) => setRoadFactorWeight(Number(e.target.value))}
+                              style={{ width: '64px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                            />
+                            <span style={{ width: '72px' }}></span>
+                          </div>
+                          {POI_CATEGORIES.filter(c => poiSelection[c.id]).map(c => (
+                            <div key={c.id} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+                              <span style={{ flex: 1 }}>{c.label}</span>
+                              <input
+                                type="number" min="0" step="0.1"
+                                value={poiFactorSettings[c.id].weight}
+                                onChange={(e) => updatePoiFactor(c.id, 'weight', Number(e.target.value))}
+                                style={{ width: '64px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                              />
+                              <input
+                                type="number" min="1" step="50"
+                                value={poiFactorSettings[c.id].halfDistance}
+                                onChange={(e) => updatePoiFactor(c.id, 'halfDistance', Number(e.target.value))}
+                                style={{ width: '72px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
 
                   <button
                     onClick={handleCalculateValuation}
+                    disabled={analysisProgress !== null}
                     style={{
                       width: '100%',
                       padding: '10px',
@@ -622,23 +1523,257 @@ export default function Home() {
                   >
                     Calculate Value Gradient
                   </button>
+                  {progressBarFor('valuation')}
 
                   {/* Legend */}
                   {valuationStats && (
                     <div style={{ marginTop: '1rem', padding: '10px', background: '#f5f5f5', borderRadius: '6px', fontSize: '0.8rem' }}>
-                      <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
-                        <span>High Value (Close)</span>
-                        <span>Low Value (Far)</span>
+                      <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+                        <select
+                          value={colorSettings.scheme}
+                          onChange={(e) => updateColorSettings('scheme', e.target.value as ColorSchemeId)}
+                          title="Colour scheme"
+                          style={{ flex: 1, minWidth: 0, padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                        >
+                          {(Object.keys(COLOR_SCHEMES) as ColorSchemeId[]).map(id => (
+                            <option key={id} value={id}>{COLOR_SCHEMES[id].label}{COLOR_SCHEMES[id].colorBlindSafe ? ' (colour-blind safe)' : ''}</option>
+                          ))}
+                        </select>
+                        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                          <input
+                            type="checkbox"
+                            checked={colorSettings.reverse}
+                            onChange={(e) => updateColorSettings('reverse', e.target.checked)}
+                          />
+                          Reverse
+                        </label>
                       </div>
-                      <div style={{ height: '10px', background: 'linear-gradient(to right, rgb(215,48,39), rgb(254,224,144), rgb(69,117,180))', borderRadius: '4px', marginBottom: '5px' }}></div>
-                      <div style={{ display: 'flex', justifyContent: 'space-between', color: '#666' }}>
-                        <span>{Math.round(valuationStats.minD)}m (Val: {valuationStats.maxV.toFixed(2)})</span>
-                        <span>{Math.round(valuationStats.maxD)}m (Val: {valuationStats.minV.toFixed(2)})</span>
+                      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+                        <select
+                          value={colorSettings.method}
+                          onChange={(e) => updateColorSettings('method', e.target.value as ClassificationMethod)}
+                          title="Classification"
+                          style={{ flex: 1, minWidth: 0, padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                        >
+                          {(Object.keys(CLASSIFICATION_METHODS) as ClassificationMethod[]).map(method => (
+                            <option key={method} value={method}>{CLASSIFICATION_METHODS[method].label}</option>
+                          ))}
+                        </select>
+                        {colorSettings.method !== 'continuous' && (
+                          <input
+                            type="number" min={MIN_CLASSES} max={MAX_CLASSES}
+                            value={colorSettings.classes}
+                            onChange={(e) => updateColorSettings('classes', Number(e.target.value))}
+                            title="Number of classes"
+                            style={{ width: '52px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' }}
+                          />
+                        )}
                       </div>
+                      <ValueLegend scale={valueScale} />
+                      <div style={{ color: '#666', marginTop: '5px' }}>
+                        Distance {Math.round(valuationStats.minD)}m (closest) to {Math.round(valuationStats.maxD)}m (farthest)
+                      </div>
+                      {staleSteps.valuation && <StaleNote />}
                     </div>
                   )}
                 </div>
               )}
+
+              {/* Pricing Section */}
+              {pricingSummary && (
+                <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
+                  <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Land Price</h2>
+
+                  <div style={{ display: 'flex', gap: '8px', marginBottom: '1rem', fontSize: '0.85rem' }}>
+                    <input
+                      type="number" min="0"
+                      value={pricing.baseRate}
+                      onChange={(e) => updatePricing('baseRate', Number(e.target.value))}
+                      style={{ flex: 1, padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                    <input
+                      type="text"
+                      value={pricing.currency}
+                      onChange={(e) => updatePricing('currency', e.target.value.toUpperCase())}
+                      maxLength={3}
+                      title="Currency code"
+                      style={{ width: '52px', padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                    <select
+                      value={pricing.unit}
+                      onChange={(e) => updatePricing('unit', e.target.value as AreaUnit)}
+                      style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    >
+                      {(Object.keys(AREA_UNITS) as AreaUnit[]).map(unit => (
+                        <option key={unit} value={unit}>per {AREA_UNITS[unit].label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div style={{ display: 'flex', gap: '8px', marginBottom: '1rem', fontSize: '0.85rem', color: '#666' }}>
+                    <label style={{ flex: 1 }}>
+                      Floor ×
+                      <input
+                        type="number" min="0" step="0.1"
+                        value={pricing.floorMultiplier}
+                        onChange={(e) => updatePricing('floorMultiplier', Number(e.target.value))}
+                        style={{ width: '100%', padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                    </label>
+                    <label style={{ flex: 1 }}>
+                      Ceiling ×
+                      <input
+                        type="number" min="0" step="0.1"
+                        value={pricing.ceilingMultiplier}
+                        onChange={(e) => updatePricing('ceilingMultiplier', Number(e.target.value))}
+                        style={{ width: '100%', padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                    </label>
+                    <label style={{ flex: 1 }}>
+                      Top/Bottom %
+                      <input
+                        type="number" min="1" max="100"
+                        value={sharePercent}
+                        onChange={(e) => setSharePercent(Number(e.target.value))}
+                        style={{ width: '100%', padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                      />
+                    </label>
+                  </div>
+
+                  <div style={{ fontSize: '0.85rem', color: '#555', background: '#fff3e0', padding: '10px', borderRadius: '6px' }}>
+                    <div>Total Value: <strong>{formatMoney(pricingSummary.totalValue, pricing.currency)}</strong></div>
+                    <div>
+                      Average Rate: <strong>{formatMoney(pricingSummary.averageRatePerSqM * AREA_UNITS[pricing.unit].sqm, pricing.currency)}</strong> per {AREA_UNITS[pricing.unit].label}
+                    </div>
+                    <div>
+                      Top {sharePercent}%: <strong>{formatMoney(pricingSummary.top.value, pricing.currency)}</strong>
+                      {pricingSummary.totalValue > 0 && ` (${Math.round(pricingSummary.top.value / pricingSummary.totalValue * 100)}% of value)`}
+                    </div>
+                    <div>
+                      Bottom {sharePercent}%: <strong>{formatMoney(pricingSummary.bottom.value, pricing.currency)}</strong>
+                      {pricingSummary.totalValue > 0 && ` (${Math.round(pricingSummary.bottom.value / pricingSummary.totalValue * 100)}% of value)`}
+                    </div>
+                    {staleSteps.valuation && <StaleNote />}
+                  </div>
+                </div>
+              )}
+
+              {/* Contour Bands Section */}
+              {valuationResults.length > 0 && (
+                <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
+                  <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Contour Bands</h2>
+                  <div style={{ display: 'flex', gap: '6px', marginBottom: '8px', fontSize: '0.85rem' }}>
+                    <select
+                      value={contourField}
+                      onChange={(e) => handleContourFieldChange(e.target.value as ContourField)}
+                      style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    >
+                      {(Object.keys(CONTOUR_FIELDS) as ContourField[]).map(field => (
+                        <option key={field} value={field}>
+                          {CONTOUR_FIELDS[field].label}{CONTOUR_FIELDS[field].unit && ` (${CONTOUR_FIELDS[field].unit})`}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={contourBreaks}
+                      onChange={(e) => setContourBreaks(e.target.value)}
+                      title="Break values, comma separated"
+                      placeholder="Breaks, e.g. 0.6, 0.8"
+                      style={{ flex: 1, minWidth: 0, padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+                    />
+                  </div>
+                  <button
+                    onClick={handleGenerateContours}
+                    style={{
+                      width: '100%',
+                      padding: '10px',
+                      backgroundColor: 'white',
+                      color: '#e65100',
+                      border: '1px solid #e65100',
+                      borderRadius: '8px',
+                      fontWeight: '600',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    Generate Bands
+                  </button>
+
+                  {contours && (
+                    <div style={{ marginTop: '1rem', padding: '10px', background: '#f5f5f5', borderRadius: '6px', fontSize: '0.8rem' }}>
+                      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+                        <input type="checkbox" checked={showContours} onChange={(e) => setShowContours(e.target.checked)} />
+                        Show bands on the map instead of cells
+                      </label>
+                      {contours.map(band => (
+                        <div key={band.label} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '3px', color: band.feature ? undefined : '#999' }}>
+                          <span style={{ width: '14px', height: '14px', background: band.feature ? band.color : 'transparent', border: '1px solid rgba(0,0,0,0.2)', borderRadius: '2px' }}></span>
+                          <span style={{ flex: 1 }}>{band.label}</span>
+                          <span>{(band.areaSqM / 10000).toFixed(2)} ha</span>
+                          <span style={{ width: '40px', textAlign: 'right', color: '#666' }}>
+                            {areaSqM ? `${Math.round(100 * band.areaSqM / areaSqM)}%` : ''}
+                          </span>
+                        </div>
+                      ))}
+                      {staleSteps.valuation && <StaleNote />}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Scenarios Section */}
+              {(valuationResults.length > 0 || scenarios.length > 0) && (
+                <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
+                  <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Scenarios</h2>
+                  <ScenarioPanel
+                    scenarios={scenarios}
+                    activeId={activeScenarioId}
+                    canSave={valuationResults.length > 0}
+                    onSave={handleSaveScenario}
+                    onLoad={handleLoadScenario}
+                    onDelete={handleDeleteScenario}
+                    compareIds={compareIds}
+                    onToggleCompare={toggleCompare}
+                    showDifference={showDifference}
+                    onToggleDifference={() => setShowDifference(prev => !prev)}
+                    difference={scenarioDifference}
+                  />
+                </div>
+              )}
+
+              {/* Export Section */}
+              {valuationResults.length > 0 && (
+                <div style={{ marginTop: '2rem', borderTop: '1px solid #eee', paddingTop: '1.5rem' }}>
+                  <h2 style={{ fontSize: '1rem', fontWeight: '700', marginBottom: '1rem' }}>Export</h2>
+                  <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+                    {([
+                      ['geojson', 'GeoJSON'],
+                      ['kml', 'KML'],
+                      ['csv', 'CSV'],
+                      ['shp', 'Shapefile (zip)']
+                    ] as const).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        style={{
+                          padding: '8px',
+                          backgroundColor: 'white',
+                          color: '#333',
+                          border: '1px solid #ccc',
+                          borderRadius: '8px',
+                          fontSize: '0.85rem',
+                          cursor: 'pointer'
+                        }}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <div style={{ marginTop: '8px', fontSize: '0.8rem', color: '#888' }}>
+                    Includes valued cells, boundary, roads, the connection line and any contour bands (CSV: cells only).
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -647,19 +1782,55 @@ export default function Home() {
       {/* Map */}
       <div style={{ flex: 1, position: 'relative' }}>
         <MapComponent
-          polygonPath={polygonPath}
+          boundaryPaths={boundaryPaths}
           roads={roadsPaths}
           closestRoadIndex={closestRoadData?.roadIndex}
           connectionLine={closestRoadData?.connection}
-          gridCells={gridPaths}
-          coloredCells={coloredCells}
+          frontageLines={frontage?.segments.map(segment => ({
+            path: toPath(segment.coordinates),
+            color: FRONTAGE_CLASS_COLORS[segment.highway] || FRONTAGE_FALLBACK_COLOR
+          }))}
+          alternativeConnections={nearbyRoads.filter(r => r.roadIndex !== closestRoadData?.roadIndex).map(r => toPath(r.connection))}
+          gridCells={shownContours ? undefined : gridPaths}
+          coloredCells={shownContours ? undefined : differenceCells || valueCells}
+          onCellClick={differenceCells ? undefined : handleCellClick}
+          contourBands={shownContours?.filter(band => band.feature).map(band => {
+            const geometry = band.feature!.geometry;
+            return {
+              parts: (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates).map(rings => rings.map(toPath)),
+              color: band.color,
+              tooltip: `${CONTOUR_FIELDS[band.field].label} ${band.label}: ${(band.areaSqM / 10000).toFixed(2)} ha`
+            };
+          })}
+          inspectedCell={inspection && !shownContours ? {
+            path: coloredCells[inspectedIndex].path,
+            roadLine: inspection.roadPoint && toPath([inspection.centroid, inspection.roadPoint])
+          } : null}
+          accessPoints={distanceMetric === 'travel' && networkTarget === 'points' ? accessPoints : undefined}
+          onMapClick={isDrawingBoundary
+            ? (pt) => setDrawPath(prev => [...prev, pt])
+            : isPlacingAccessPoints && distanceMetric === 'travel' && networkTarget === 'points' ? addAccessPoint : undefined}
+          draftPath={isDrawingBoundary ? drawPath : undefined}
+          pois={pois.map(p => {
+            const category = POI_CATEGORIES.find(c => c.id === p.properties?.category);
+            return {
+              position: { lat: p.geometry.coordinates[1], lng: p.geometry.coordinates[0] },
+              color: category?.color || '#555555',
+              title: `${p.properties?.name || 'Unnamed'} (${category?.label || p.properties?.category})`
+            };
+          })}
+          editableBoundary={isEditingBoundary}
+          onBoundaryEdit={handleBoundaryEdit}
         />
 
-        {/* Tooltip Overlay (if needed, but MapComponent handles hover visually? Use map polygons title if possible or custom overlay) 
-            For this iteration, we rely on console logs or maybe just tooltip attribute if supported? 
-            Polygon options don't support simple tooltip.
-            We added styling.
-        */}
+        {inspection && (
+          <CellInspector
+            cell={pricedCells[inspectedIndex]}
+            inspection={inspection}
+            pricing={pricing}
+            onClose={() => setInspectedCell(null)}
+          />
+        )}
       </div>
     </main>
   );
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+import type { AnalysisProgress, AnalysisStep } from '@/lib/analysisWorker';
+
+interface AnalysisProgressBarProps {
+  progress: AnalysisProgress;
+  onCancel: () => void;
+}
+
+const STEP_LABELS: Record<AnalysisStep, { label: string, unit: string }> = {
+  closestRoad: { label: 'Finding closest road', unit: 'boundary edges' },
+  grid: { label: 'Generating grid', unit: 'cells' },
+  valuation: { label: 'Calculating values', unit: 'cells' }
+};
+
+export default function AnalysisProgressBar({ progress, onCancel }: AnalysisProgressBarProps) {
+  const { label, unit } = STEP_LABELS[progress.step];
+  const fraction = progress.total > 0 ? Math.min(progress.done / progress.total, 1) : 0;
+
+  return (
+    <div style={{ marginTop: '0.75rem', padding: '10px', background: '#f5f5f5', borderRadius: '6px', fontSize: '0.8rem', color: '#555' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <span>
+          {label}
+          {progress.total > 0 && <> ({progress.done.toLocaleString()} / {progress.total.toLocaleString()} {unit})</>}
+        </span>
+        <button
+          onClick={onCancel}
+          style={{ padding: '2px 8px', fontSize: '0.75rem', background: 'white', border: '1px solid #ccc', borderRadius: '6px', cursor: 'pointer' }}
+        >
+          Cancel
+        </button>
+      </div>
+      <div style={{ height: '6px', background: '#e0e0e0', borderRadius: '3px', overflow: 'hidden' }}>
+        <div style={{ width: `${Math.round(fraction * 100)}%`, height: '100%', background: '#007aff', transition: 'width 0.1s linear' }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import React from 'react';
+import { CellInspection, CellValue } from '@/lib/geo';
+import { POI_CATEGORIES } from '@/lib/poi';
+import { AREA_UNITS, PricingSettings, formatMoney } from '@/lib/pricing';
+
+interface CellInspectorProps {
+  cell: CellValue; // priced
+  inspection: CellInspection;
+  pricing: PricingSettings;
+  onClose: () => void;
+}
+
+const rowStyle = { display: 'flex', justifyContent: 'space-between', gap: '12px', padding: '3px 0', borderBottom: '1px solid #f0f0f0' };
+
+const formatDistance = (d: number) => (Number.isFinite(d) ? `${Math.round(d)} m` : 'unreachable');
+
+export default function CellInspector({ cell, inspection, pricing, onClose }: CellInspectorProps) {
+  const unit = AREA_UNITS[pricing.unit];
+  const { road } = inspection;
+
+  const rows: [string, string][] = [['Value', cell.value.toFixed(3)]];
+  if (cell.roadValue !== undefined) rows.push(['Road value', cell.roadValue.toFixed(3)]);
+  if (cell.euclideanDistance !== undefined) {
+    rows.push(['Travel distance', formatDistance(cell.distance)], ['Straight distance', formatDistance(cell.euclideanDistance)]);
+  } else {
+    rows.push(['Distance', formatDistance(cell.distance)]);
+  }
+  rows.push(['Area', `${(inspection.areaSqM / unit.sqm).toLocaleString(undefined, { maximumFractionDigits: unit.sqm > 1 ? 3 : 0 })} ${unit.label}`]);
+  if (cell.price !== undefined) rows.push(['Price', formatMoney(cell.price, pricing.currency)]);
+  rows.push(['Centroid', `${inspection.centroid[1].toFixed(6)}, ${inspection.centroid[0].toFixed(6)}`]);
+  Object.entries(cell.poiDistances || {}).forEach(([category, d]) => {
+    rows.push([POI_CATEGORIES.find(c => c.id === category)?.label || category, formatDistance(d)]);
+  });
+
+  return (
+    <div style={{
+      position: 'absolute', top: '12px', right: '12px', zIndex: 10, width: '260px',
+      background: 'white', borderRadius: '10px', boxShadow: '0 2px 12px rgba(0,0,0,0.2)',
+      padding: '12px', fontSize: '0.8rem', color: '#333'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ display: 'flex', alignItems: 'center', fontWeight: '700', fontSize: '0.9rem' }}>
+          <span style={{ width: '12px', height: '12px', borderRadius: '3px', background: cell.color, marginRight: '6px' }}></span>
+          Cell
+        </span>
+        <button
+          onClick={onClose}
+          aria-label="Close inspector"
+          style={{ border: 'none', background: 'none', fontSize: '1rem', cursor: 'pointer', color: '#888', lineHeight: 1 }}
+        >
+          ×
+        </button>
+      </div>
+
+      {rows.map(([label, value]) => (
+        <div key={label} style={rowStyle}>
+          <span style={{ color: '#777' }}>{label}</span>
+          <span style={{ fontWeight: '600', textAlign: 'right' }}>{value}</span>
+        </div>
+      ))}
+
+      <div style={{ marginTop: '8px' }}>
+        <span style={{ color: '#777' }}>Measured against</span>
+        {road ? (
+          <div style={{ marginTop: '2px' }}>
+            <strong>{road.name || road.ref || 'Unnamed road'}</strong>
+            {road.name && road.ref && <span style={{ color: '#888' }}> ({road.ref})</span>}
+            <span style={{ color: '#888' }}> · {road.highway}</span>
+            {inspection.roadDistanceMeters !== null && (
+              <div style={{ color: '#777' }}>Nearest point {Math.round(inspection.roadDistanceMeters)} m from the centroid</div>
+            )}
+          </div>
+        ) : (
+          <div style={{ marginTop: '2px', color: '#888' }}>No road recorded for this cell.</div>
+        )}
+      </div>
+    </div>
+  );
+}
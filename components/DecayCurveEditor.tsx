@@ -0,0 +1,162 @@
+'use client';
+
+import React from 'react';
+import {
+  CurvePoint,
+  DecayCurve,
+  DecayCurveType,
+  DECAY_CURVE_TYPES,
+  DECAY_FUNCTIONS,
+  defaultDecayCurve,
+  sampleDecayCurve
+} from '@/lib/decay';
+
+interface DecayCurveEditorProps {
+  curve: DecayCurve;
+  onChange: (curve: DecayCurve) => void;
+}
+
+const inputStyle = { width: '72px', padding: '4px', borderRadius: '4px', border: '1px solid #ddd' };
+
+const PLOT_WIDTH = 280;
+const PLOT_HEIGHT = 120;
+const PLOT_PADDING = { left: 28, right: 8, top: 8, bottom: 20 };
+
+// Scalar parameters of each curve type: [key, label, min, step]
+const CURVE_PARAMS: Partial<Record<DecayCurveType, [string, string, number, number][]>> = {
+  exponential: [['k', 'Decay factor k', 0.0001, 0.001]],
+  gaussian: [['sigma', 'Sigma (m)', 1, 10]],
+  inverse_power: [['scale', 'Half value at (m)', 1, 10], ['power', 'Power', 0.1, 0.1]],
+  logistic: [['midpoint', 'Midpoint (m)', 0, 10], ['steepness', 'Width (m)', 1, 5]]
+};
+
+function CurvePreview({ curve }: { curve: DecayCurve }) {
+  const { range, points } = sampleDecayCurve(curve);
+  const innerW = PLOT_WIDTH - PLOT_PADDING.left - PLOT_PADDING.right;
+  const innerH = PLOT_HEIGHT - PLOT_PADDING.top - PLOT_PADDING.bottom;
+  const x = (d: number) => PLOT_PADDING.left + (d / range) * innerW;
+  const y = (v: number) => PLOT_PADDING.top + (1 - v) * innerH;
+
+  const path = points.map(([d, v], i) => `${i === 0 ? 'M' : 'L'}${x(d).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+
+  return (
+    <svg width="100%" viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} style={{ background: '#fafafa', borderRadius: '6px', border: '1px solid #eee' }}>
+      {[0, 0.5, 1].map(v => (
+        <g key={v}>
+          <line x1={PLOT_PADDING.left} x2={PLOT_WIDTH - PLOT_PADDING.right} y1={y(v)} y2={y(v)} stroke="#e0e0e0" />
+          <text x={PLOT_PADDING.left - 4} y={y(v) + 3} fontSize="9" textAnchor="end" fill="#888">{v}</text>
+        </g>
+      ))}
+      <text x={PLOT_PADDING.left} y={PLOT_HEIGHT - 6} fontSize="9" fill="#888">0m</text>
+      <text x={PLOT_WIDTH - PLOT_PADDING.right} y={PLOT_HEIGHT - 6} fontSize="9" textAnchor="end" fill="#888">
+        {curve.type === 'linear' ? 'farthest cell' : `${Math.round(range)}m`}
+      </text>
+      <path d={path} fill="none" stroke="#e65100" strokeWidth="2" />
+    </svg>
+  );
+}
+
+// (distance, value) rows for distance bands and piecewise curves
+function PointTable({ rows, distanceLabel, onChange }: {
+  rows: CurvePoint[];
+  distanceLabel: string;
+  onChange: (rows: CurvePoint[]) => void;
+}) {
+  const update = (index: number, key: keyof CurvePoint, value: number) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, [key]: value } : row)));
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    onChange([...rows, { distance: last ? last.distance + 100 : 0, value: last ? Math.max(0, last.value - 0.2) : 1 }]);
+  };
+
+  return (
+    <div style={{ fontSize: '0.85rem', marginBottom: '8px' }}>
+      <div style={{ display: 'flex', gap: '8px', color: '#888', fontSize: '0.75rem', marginBottom: '4px' }}>
+        <span style={{ width: '72px' }}>{distanceLabel}</span>
+        <span style={{ width: '72px' }}>Value</span>
+      </div>
+      {rows.map((row, i) => (
+        <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+          <input
+            type="number" min="0" step="10"
+            value={row.distance}
+            onChange={(e) => update(i, 'distance', Number(e.target.value))}
+            style={inputStyle}
+          />
+          <input
+            type="number" min="0" max="1" step="0.05"
+            value={row.value}
+            onChange={(e) => update(i, 'value', Number(e.target.value))}
+            style={inputStyle}
+          />
+          <button
+            onClick={() => onChange(rows.filter((_, j) => j !== i))}
+            disabled={rows.length <= 1}
+            title="Remove row"
+            style={{ border: 'none', background: 'none', color: '#c62828', cursor: 'pointer', fontSize: '1rem' }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addRow}
+        style={{ padding: '4px 10px', fontSize: '0.8rem', background: 'white', border: '1px solid #ccc', borderRadius: '6px', cursor: 'pointer' }}
+      >
+        + Add row
+      </button>
+    </div>
+  );
+}
+
+export default function DecayCurveEditor({ curve, onChange }: DecayCurveEditorProps) {
+  const params = CURVE_PARAMS[curve.type] || [];
+
+  return (
+    <div style={{ marginBottom: '1rem' }}>
+      <div style={{ marginBottom: '8px' }}>
+        <label style={{ fontSize: '0.85rem', color: '#666', marginRight: '10px' }}>Decay:</label>
+        <select
+          value={curve.type}
+          onChange={(e) => onChange(defaultDecayCurve(e.target.value as DecayCurveType))}
+          style={{ padding: '6px', borderRadius: '4px', border: '1px solid #ddd' }}
+        >
+          {DECAY_CURVE_TYPES.map(type => (
+            <option key={type} value={type}>{DECAY_FUNCTIONS[type].label}</option>
+          ))}
+        </select>
+      </div>
+
+      {params.map(([key, label, min, step]) => (
+        <div key={key} style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: '0.85rem', marginBottom: '6px' }}>
+          <span style={{ color: '#666' }}>{label}</span>
+          <input
+            type="number" min={min} step={step}
+            value={(curve as unknown as Record<string, number>)[key]}
+            onChange={(e) => onChange({ ...curve, [key]: Number(e.target.value) } as DecayCurve)}
+            style={inputStyle}
+          />
+        </div>
+      ))}
+
+      {curve.type === 'bands' && (
+        <PointTable
+          rows={curve.bands}
+          distanceLabel="Up to (m)"
+          onChange={(bands) => onChange({ ...curve, bands })}
+        />
+      )}
+
+      {curve.type === 'piecewise' && (
+        <PointTable
+          rows={curve.points}
+          distanceLabel="Distance (m)"
+          onChange={(points) => onChange({ ...curve, points })}
+        />
+      )}
+
+      <CurvePreview curve={curve} />
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useCallback, useState, useEffect, useRef } from 'react';
+import { GoogleMap, useJsApiLoader, useGoogleMap, Polygon, Polyline, Marker } from '@react-google-maps/api';
+import { createLodView, getCellLod, LodCell, LodShape } from '@/lib/cellLod';
+import { AreaStyle, DEFAULT_VIEW, HoverTooltip, LineStyle, MapMessage, MapRendererProps, OVERLAY_STYLES, PointStyle, useCellLayer, useHoverTooltip } from './mapRenderer';
+
+const containerStyle = {
+  width: '100%',
+  height: '100%'
+};
+
+// Define libraries array outside component to prevent re-renders
+const LIBRARIES: ("places" | "geometry" | "visualization")[] = [];
+
+// Define map options
+const mapOptions = {
+  disableDefaultUI: false,
+  zoomControl: true,
+  mapTypeControl: false,
+  streetViewControl: false,
+};
+
+// Shared overlay styles as Google Maps options; dashes are drawn as repeated line symbols
+function lineOptions(style: LineStyle, color: string = style.color): google.maps.PolylineOptions {
+  return {
+    strokeColor: color,
+    strokeWeight: style.weight,
+    zIndex: style.zIndex,
+    ...(style.dashed
+      ? {
+        strokeOpacity: 0,
+        icons: [{
+          icon: { path: 'M 0,-1 0,1', strokeOpacity: style.opacity, scale: 2 },
+          offset: '0',
+          repeat: '10px'
+        }]
+      }
+      : { strokeOpacity: style.opacity })
+  };
+}
+
+function areaOptions(style: AreaStyle, fillColor: string = style.fillColor): google.maps.PolygonOptions {
+  return {
+    fillColor,
+    fillOpacity: style.fillOpacity,
+    strokeColor: style.color,
+    strokeOpacity: style.opacity,
+    strokeWeight: style.weight,
+    zIndex: style.zIndex
+  };
+}
+
+const pointIcon = (style: PointStyle): google.maps.Symbol => ({
+  path: google.maps.SymbolPath.CIRCLE,
+  scale: style.radius,
+  fillColor: style.fillColor,
+  fillOpacity: style.fillOpacity,
+  strokeColor: style.color,
+  strokeWeight: style.weight
+});
+
+interface CellLayerProps {
+  cells: LodCell[];
+  style: Omit<AreaStyle, 'fillColor'>;
+  interactive: boolean;
+  onHover: (text: string, e: google.maps.MapMouseEvent) => void;
+  onHoverEnd: () => void;
+  onCellClick?: (index: number) => void;
+}
+
+// All cells in one Data layer, at the level of detail for the zoom and only near the view
+function CellLayer({ cells, style, interactive, onHover, onHoverEnd, onCellClick }: CellLayerProps) {
+  const map = useGoogleMap();
+
+  // Handlers change with every parent render; the layer shouldn't be rebuilt for that
+  const handlersRef = useRef({ onHover, onHoverEnd, onCellClick });
+  useEffect(() => {
+    handlersRef.current = { onHover, onHoverEnd, onCellClick };
+  });
+
+  useEffect(() => {
+    if (!map) return;
+    const view = createLodView(getCellLod(cells));
+    const data = new google.maps.Data({ map });
+    data.setStyle(feature => ({
+      fillColor: (feature.getProperty('shape') as LodShape).color,
+      fillOpacity: style.fillOpacity,
+      strokeColor: style.color,
+      strokeOpacity: style.opacity,
+      strokeWeight: style.weight,
+      zIndex: style.zIndex,
+      clickable: interactive
+    }));
+
+    const features = new Map<number, google.maps.Data.Feature>();
+    const update = () => {
+      const bounds = map.getBounds();
+      if (!bounds) return;
+      const sw = bounds.getSouthWest();
+      const ne = bounds.getNorthEast();
+      const { shapes, reset, add, remove } = view.update(map.getZoom() ?? DEFAULT_VIEW.zoom, {
+        south: sw.lat(), west: sw.lng(), north: ne.lat(), east: ne.lng()
+      });
+      if (reset) {
+        features.forEach(feature => data.remove(feature));
+        features.clear();
+      }
+      remove.forEach(i => {
+        const feature = features.get(i);
+        if (feature) data.remove(feature);
+        features.delete(i);
+      });
+      add.forEach(i => {
+        features.set(i, data.add({ geometry: new google.maps.Data.Polygon([shapes[i].path]), properties: { shape: shapes[i] } }));
+      });
+    };
+    update();
+
+    const hover = (e: google.maps.Data.MouseEvent) => {
+      const { tooltip } = e.feature.getProperty('shape') as LodShape;
+      if (tooltip) handlersRef.current.onHover(tooltip, e);
+    };
+    const listeners = [
+      map.addListener('idle', update),
+      data.addListener('mouseover', hover),
+      data.addListener('mousemove', hover),
+      data.addListener('mouseout', () => handlersRef.current.onHoverEnd()),
+      data.addListener('click', (e: google.maps.Data.MouseEvent) => {
+        const { cellIndex } = e.feature.getProperty('shape') as LodShape;
+        if (cellIndex !== null) handlersRef.current.onCellClick?.(cellIndex);
+      })
+    ];
+    return () => {
+      listeners.forEach(listener => listener.remove());
+      data.setMap(null);
+    };
+  }, [map, cells, style, interactive]);
+
+  return null;
+}
+
+export default function GoogleMapRenderer({
+  boundaryPaths,
+  roads,
+  closestRoadIndex,
+  connectionLine,
+  alternativeConnections,
+  frontageLines,
+  gridCells,
+  coloredCells,
+  onCellClick,
+  inspectedCell,
+  contourBands,
+  accessPoints,
+  pois,
+  onMapClick,
+  draftPath,
+  editableBoundary,
+  onBoundaryEdit
+}: MapRendererProps) {
+  const { isLoaded, loadError } = useJsApiLoader({
+    id: 'google-map-script',
+    googleMapsApiKey: process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || '',
+    libraries: LIBRARIES
+  });
+
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+
+  const onLoad = useCallback((map: google.maps.Map) => {
+    setMap(map);
+  }, []);
+
+  const onUnmount = useCallback((map: google.maps.Map) => {
+    setMap(null);
+  }, []);
+
+  // One google.maps.Polygon per boundary part
+  const boundaryRefs = useRef<(google.maps.Polygon | null)[]>([]);
+  // Set when boundaryPaths changes because of our own vertex edit, so the view doesn't jump
+  const skipFitRef = useRef(false);
+
+  // Effect to fit bounds when boundaryPaths changes
+  useEffect(() => {
+    if (skipFitRef.current) {
+      skipFitRef.current = false;
+      return;
+    }
+    if (map && boundaryPaths) {
+      if (boundaryPaths.length > 0) {
+        const bounds = new window.google.maps.LatLngBounds();
+        // Outer rings are enough to bound every part
+        boundaryPaths.forEach(part => part[0].forEach(coord => bounds.extend(coord)));
+        map.fitBounds(bounds);
+      }
+    }
+  }, [map, boundaryPaths]);
+
+  const { wrapperRef, tooltipRef, show: showTooltip, hide: hideTooltip } = useHoverTooltip();
+  const cellLayer = useCellLayer(gridCells, coloredCells);
+
+  const handleCellHover = useCallback((text: string, e: google.maps.MapMouseEvent) => {
+    const dom = e.domEvent;
+    if (dom && 'clientX' in dom) showTooltip(text, dom.clientX, dom.clientY);
+  }, [showTooltip]);
+
+  // The hovered cell may be gone after a re-run
+  useEffect(() => {
+    hideTooltip();
+  }, [coloredCells, hideTooltip]);
+
+  const handleClick = useCallback((e: google.maps.MapMouseEvent) => {
+    if (onMapClick && e.latLng) {
+      onMapClick({ lat: e.latLng.lat(), lng: e.latLng.lng() });
+    }
+  }, [onMapClick]);
+
+  const emitBoundaryEdit = useCallback(() => {
+    if (!onBoundaryEdit) return;
+    const parts = boundaryRefs.current
+      .filter((poly): poly is google.maps.Polygon => !!poly)
+      .map(poly => poly.getPaths().getArray().map(ring =>
+        ring.getArray().map(ll => ({ lat: ll.lat(), lng: ll.lng() }))
+      ));
+    skipFitRef.current = true;
+    onBoundaryEdit(parts);
+  }, [onBoundaryEdit]);
+
+  // Right-click a vertex to delete it (a ring keeps at least 3)
+  const handleBoundaryRightClick = useCallback((partIndex: number, e: google.maps.MapMouseEvent) => {
+    const { vertex, path: ringIndex } = e as google.maps.PolyMouseEvent;
+    const poly = boundaryRefs.current[partIndex];
+    if (!poly || vertex === undefined || vertex === null) return;
+    const ring = poly.getPaths().getAt(ringIndex ?? 0);
+    if (!ring || ring.getLength() <= 3) return;
+    ring.removeAt(vertex);
+    emitBoundaryEdit();
+  }, [emitBoundaryEdit]);
+
+
+  if (loadError) {
+    return <MapMessage error>Error loading Google Maps. Please check your API key.</MapMessage>;
+  }
+
+  if (!isLoaded) {
+    return <MapMessage>Loading Map...</MapMessage>;
+  }
+
+  return (
+    <div ref={wrapperRef} style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <GoogleMap
+        mapContainerStyle={containerStyle}
+        center={DEFAULT_VIEW.center}
+        zoom={DEFAULT_VIEW.zoom}
+        onLoad={onLoad}
+        onUnmount={onUnmount}
+        onClick={handleClick}
+        options={{ ...mapOptions, draggableCursor: onMapClick ? 'crosshair' : undefined }}
+      >
+
+
+        {/* Render Roads */}
+        {roads && roads.map((roadPath, index) => (
+          <Polyline
+            key={`road-${index}`}
+            path={roadPath}
+            options={{
+              ...lineOptions(closestRoadIndex === index ? OVERLAY_STYLES.selectedRoad : OVERLAY_STYLES.road),
+              geodesic: true
+            }}
+          />
+        ))}
+
+        {/* Render Road Frontage */}
+        {frontageLines?.map((line, index) => (
+          <Polyline
+            key={`frontage-${index}`}
+            path={line.path}
+            options={{ ...lineOptions({ ...OVERLAY_STYLES.frontage, color: line.color }), clickable: false }}
+          />
+        ))}
+
+        {/* Render Connection Lines to the Other Nearby Roads */}
+        {alternativeConnections?.map((path, index) => (
+          <Polyline
+            key={`alt-connection-${index}`}
+            path={path}
+            options={lineOptions(OVERLAY_STYLES.alternativeConnection)}
+          />
+        ))}
+
+        {/* Render Connection Line */}
+        {connectionLine && (
+          <Polyline
+            path={connectionLine}
+            options={lineOptions(OVERLAY_STYLES.connection)}
+          />
+        )}
+
+        {/* Render Grid Cells (Colored or Plain) */}
+        {cellLayer.cells.length > 0 && (
+          <CellLayer
+            cells={cellLayer.cells}
+            style={cellLayer.style}
+            interactive={cellLayer.colored && !onMapClick} // Enable for hover
+            onHover={handleCellHover}
+            onHoverEnd={hideTooltip}
+            onCellClick={onCellClick}
+          />
+        )}
+
+        {/* Render Contour Bands (one polygon per band, parts and holes as paths) */}
+        {contourBands?.map((band, index) => (
+          <Polygon
+            key={`contour-${index}`}
+            paths={band.parts.flat()}
+            options={{
+              ...areaOptions({ ...OVERLAY_STYLES.contourBand, fillColor: band.color }),
+              clickable: !onMapClick // Enable for hover
+            }}
+            onMouseOver={(e) => handleCellHover(band.tooltip, e)}
+            onMouseMove={(e) => handleCellHover(band.tooltip, e)}
+            onMouseOut={hideTooltip}
+          />
+        ))}
+
+        {/* Render the Inspected Cell and its Line to the Road */}
+        {inspectedCell && (
+          <>
+            <Polygon
+              paths={inspectedCell.path}
+              options={{ ...areaOptions(OVERLAY_STYLES.inspectedCell), clickable: false }}
+            />
+            {inspectedCell.roadLine && (
+              <Polyline
+                path={inspectedCell.roadLine}
+                options={{
+                  ...lineOptions(OVERLAY_STYLES.inspectedRoadLine),
+                  clickable: false,
+                  icons: [{
+                    icon: { path: google.maps.SymbolPath.CIRCLE, scale: 3, fillColor: OVERLAY_STYLES.inspectedRoadLine.color, fillOpacity: 1, strokeWeight: 0 },
+                    offset: '100%'
+                  }]
+                }}
+              />
+            )}
+          </>
+        )}
+
+        {/* Render the Boundary Polygon (one per part, holes as inner paths) */}
+        {boundaryPaths && boundaryPaths.map((rings, partIndex) => (
+          <Polygon
+            key={`boundary-${partIndex}`}
+            paths={rings}
+            editable={!!editableBoundary}
+            onLoad={(poly) => { boundaryRefs.current[partIndex] = poly; }}
+            onUnmount={() => { boundaryRefs.current[partIndex] = null; }}
+            // Vertex drags and midpoint inserts both end with a mouseup on the polygon
+            onMouseUp={editableBoundary ? emitBoundaryEdit : undefined}
+            onRightClick={editableBoundary ? (e) => handleBoundaryRightClick(partIndex, e) : undefined}
+            options={{
+              ...areaOptions(editableBoundary ? OVERLAY_STYLES.editableBoundary : OVERLAY_STYLES.boundary),
+              // Only while editing (vertex handles); otherwise the fill would take the cells' hovers and clicks
+              clickable: !!editableBoundary && !onMapClick
+            }}
+          />
+        ))}
+
+        {/* Render Boundary Being Drawn */}
+        {draftPath && draftPath.length > 0 && (
+          <>
+            <Polyline
+              path={draftPath.length > 2 ? [...draftPath, draftPath[0]] : draftPath}
+              options={{ ...lineOptions(OVERLAY_STYLES.draft), clickable: false }}
+            />
+            {draftPath.map((pt, index) => (
+              <Marker
+                key={`draft-${index}`}
+                position={pt}
+                clickable={false}
+                icon={pointIcon(OVERLAY_STYLES.draftVertex)}
+              />
+            ))}
+          </>
+        )}
+
+        {/* Render Points of Interest */}
+        {pois && pois.map((poi, index) => (
+          <Marker
+            key={`poi-${index}`}
+            position={poi.position}
+            title={poi.title}
+            clickable={!onMapClick}
+            icon={pointIcon({ ...OVERLAY_STYLES.poi, fillColor: poi.color })}
+          />
+        ))}
+
+        {/* Render Access Points (network distance targets) */}
+        {accessPoints && accessPoints.map((pt, index) => (
+          <Marker
+            key={`access-${index}`}
+            position={pt}
+            label={`${index + 1}`}
+          />
+        ))}
+      </GoogleMap>
+      <HoverTooltip tooltipRef={tooltipRef} />
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import L from 'leaflet';
+import { CircleMarker, MapContainer, Marker, Pane, Polygon, Polyline, TileLayer, Tooltip, useMap, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { createLodView, getCellLod, LodCell } from '@/lib/cellLod';
+import { AreaStyle, DEFAULT_VIEW, HoverTooltip, LatLng, LineStyle, MapRendererProps, OVERLAY_STYLES, PointStyle, TILE_SOURCE, useCellLayer, useHoverTooltip } from './mapRenderer';
+
+// Open-source backend: Leaflet over any XYZ raster tile source (TILE_SOURCE).
+// Overlay zIndexes become map panes stacked above Leaflet's own overlay pane.
+
+const paneName = (zIndex: number) => `overlay-${zIndex}`;
+
+// Every zIndex used in OVERLAY_STYLES
+const OVERLAY_Z_INDEXES = [...new Set(Object.values(OVERLAY_STYLES).map(style => 'zIndex' in style ? style.zIndex : 0))].sort((a, b) => a - b);
+
+function OverlayPane({ zIndex, children }: { zIndex: number, children: React.ReactNode }) {
+  return <Pane name={paneName(zIndex)} style={{ zIndex: 400 + zIndex }}>{children}</Pane>;
+}
+
+// Shared overlay styles as Leaflet path options; dashes match the Google backend's 4px-on, 6px-off symbols
+const lineOptions = (style: LineStyle, color: string = style.color): L.PathOptions => ({
+  color,
+  weight: style.weight,
+  opacity: style.opacity,
+  dashArray: style.dashed ? '4 6' : undefined
+});
+
+const areaOptions = (style: AreaStyle, fillColor: string = style.fillColor): L.PathOptions => ({
+  fillColor,
+  fillOpacity: style.fillOpacity,
+  color: style.color,
+  opacity: style.opacity,
+  weight: style.weight
+});
+
+const pointOptions = (style: PointStyle): L.PathOptions => ({
+  fillColor: style.fillColor,
+  fillOpacity: style.fillOpacity,
+  color: style.color,
+  weight: style.weight
+});
+
+const vertexIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:10px;height:10px;background:#fff;border:1px solid #555;box-sizing:border-box"></div>',
+  iconSize: [10, 10]
+});
+
+const midpointIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:8px;height:8px;background:#fff;border:1px solid #555;opacity:0.6;box-sizing:border-box"></div>',
+  iconSize: [8, 8]
+});
+
+const accessPointIcon = (label: string) => L.divIcon({
+  className: '',
+  html: `<div style="width:22px;height:22px;border-radius:50%;background:#ea4335;border:2px solid #fff;box-sizing:border-box;color:#fff;font:600 11px/18px sans-serif;text-align:center">${label}</div>`,
+  iconSize: [22, 22]
+});
+
+const toLatLng = (ll: L.LatLng): LatLng => ({ lat: ll.lat, lng: ll.lng });
+
+// Fits the view to the boundary whenever it changes, except after our own vertex edit
+function FitToBoundary({ boundaryPaths, skipFitRef }: { boundaryPaths: LatLng[][][] | null, skipFitRef: React.RefObject<boolean> }) {
+  const map = useMap();
+  useEffect(() => {
+    if (skipFitRef.current) {
+      skipFitRef.current = false;
+      return;
+    }
+    if (!boundaryPaths || boundaryPaths.length === 0) return;
+    // Outer rings are enough to bound every part
+    map.fitBounds(L.latLngBounds(boundaryPaths.flatMap(part => part[0]).map(p => [p.lat, p.lng] as [number, number])));
+  }, [map, boundaryPaths, skipFitRef]);
+  return null;
+}
+
+function MapClicks({ onMapClick }: { onMapClick?: (latLng: LatLng) => void }) {
+  const map = useMapEvents({
+    click: (e) => onMapClick?.(toLatLng(e.latlng))
+  });
+  useEffect(() => {
+    map.getContainer().style.cursor = onMapClick ? 'crosshair' : '';
+  }, [map, onMapClick]);
+  return null;
+}
+
+interface CellLayerProps {
+  cells: LodCell[];
+  style: Omit<AreaStyle, 'fillColor'>;
+  interactive: boolean;
+  onHover: (text: string, e: L.LeafletMouseEvent) => void;
+  onHoverEnd: () => void;
+  onCellClick?: (index: number) => void;
+}
+
+// All cells on one canvas, at the level of detail for the zoom and only near the view
+function CellLayer({ cells, style, interactive, onHover, onHoverEnd, onCellClick }: CellLayerProps) {
+  const map = useMap();
+
+  // Handlers change with every parent render; the layer shouldn't be rebuilt for that
+  const handlersRef = useRef({ onHover, onHoverEnd, onCellClick });
+  useEffect(() => {
+    handlersRef.current = { onHover, onHoverEnd, onCellClick };
+  });
+
+  useEffect(() => {
+    const view = createLodView(getCellLod(cells));
+    const renderer = L.canvas({ pane: paneName(style.zIndex) });
+    const group = L.layerGroup().addTo(map);
+
+    const layers = new Map<number, L.Polygon>();
+    const update = () => {
+      const bounds = map.getBounds();
+      const { shapes, reset, add, remove } = view.update(map.getZoom(), {
+        south: bounds.getSouth(), west: bounds.getWest(), north: bounds.getNorth(), east: bounds.getEast()
+      });
+      if (reset) {
+        group.clearLayers();
+        layers.clear();
+      }
+      remove.forEach(i => {
+        const layer = layers.get(i);
+        if (layer) group.removeLayer(layer);
+        layers.delete(i);
+      });
+      add.forEach(i => {
+        const { path, color, tooltip, cellIndex } = shapes[i];
+        const layer = L.polygon(path, { ...areaOptions({ ...style, fillColor: color }), renderer, pane: paneName(style.zIndex), interactive });
+        if (interactive) {
+          const hover = (e: L.LeafletMouseEvent) => {
+            if (tooltip) handlersRef.current.onHover(tooltip, e);
+          };
+          layer.on({
+            mouseover: hover,
+            mousemove: hover,
+            mouseout: () => handlersRef.current.onHoverEnd(),
+            click: () => {
+              if (cellIndex !== null) handlersRef.current.onCellClick?.(cellIndex);
+            }
+          });
+        }
+        layers.set(i, layer);
+        group.addLayer(layer);
+      });
+    };
+    update();
+
+    map.on('moveend', update);
+    return () => {
+      map.off('moveend', update);
+      group.remove();
+      renderer.remove();
+    };
+  }, [map, cells, style, interactive]);
+
+  return null;
+}
+
+export default function LeafletMapRenderer({
+  boundaryPaths,
+  roads,
+  closestRoadIndex,
+  connectionLine,
+  alternativeConnections,
+  frontageLines,
+  gridCells,
+  coloredCells,
+  onCellClick,
+  inspectedCell,
+  contourBands,
+  accessPoints,
+  pois,
+  onMapClick,
+  draftPath,
+  editableBoundary,
+  onBoundaryEdit
+}: MapRendererProps) {
+  // One L.Polygon per boundary part, reshaped live while a vertex is dragged
+  const boundaryRefs = useRef<(L.Polygon | null)[]>([]);
+  // Set when boundaryPaths changes because of our own vertex edit, so the view doesn't jump
+  const skipFitRef = useRef(false);
+
+  const { wrapperRef, tooltipRef, show: showTooltip, hide: hideTooltip } = useHoverTooltip();
+  const cellLayer = useCellLayer(gridCells, coloredCells);
+
+  const handleCellHover = useCallback((text: string, e: L.LeafletMouseEvent) => {
+    showTooltip(text, e.originalEvent.clientX, e.originalEvent.clientY);
+  }, [showTooltip]);
+
+  // The hovered cell may be gone after a re-run
+  useEffect(() => {
+    hideTooltip();
+  }, [coloredCells, hideTooltip]);
+
+  // Boundary with one ring replaced
+  const withRing = (partIndex: number, ringIndex: number, ring: LatLng[]) =>
+    (boundaryPaths || []).map((rings, p) => rings.map((r, i) => (p === partIndex && i === ringIndex ? ring : r)));
+
+  const emitBoundaryEdit = (parts: LatLng[][][]) => {
+    if (!onBoundaryEdit) return;
+    skipFitRef.current = true;
+    onBoundaryEdit(parts);
+  };
+
+  // Vertex handles: drag to move, right-click to delete (a ring keeps at least 3); drag a midpoint handle to insert
+  const vertexHandles = (rings: LatLng[][], partIndex: number) => rings.flatMap((ring, ringIndex) => [
+    ...ring.map((pt, vertex) => {
+      const moved = (ll: L.LatLng) => withRing(partIndex, ringIndex, ring.map((p, v) => (v === vertex ? toLatLng(ll) : p)));
+      return (
+        <Marker
+          key={`vertex-${partIndex}-${ringIndex}-${vertex}`}
+          position={pt}
+          icon={vertexIcon}
+          draggable
+          eventHandlers={{
+            drag: (e) => boundaryRefs.current[partIndex]?.setLatLngs(moved((e.target as L.Marker).getLatLng())[partIndex]),
+            dragend: (e) => emitBoundaryEdit(moved((e.target as L.Marker).getLatLng())),
+            contextmenu: () => {
+              if (ring.length > 3) emitBoundaryEdit(withRing(partIndex, ringIndex, ring.filter((_, v) => v !== vertex)));
+            }
+          }}
+        />
+      );
+    }),
+    ...ring.map((pt, vertex) => {
+      const next = ring[(vertex + 1) % ring.length];
+      const inserted = (ll: L.LatLng) => withRing(partIndex, ringIndex, [...ring.slice(0, vertex + 1), toLatLng(ll), ...ring.slice(vertex + 1)]);
+      return (
+        <Marker
+          key={`midpoint-${partIndex}-${ringIndex}-${vertex}`}
+          position={{ lat: (pt.lat + next.lat) / 2, lng: (pt.lng + next.lng) / 2 }}
+          icon={midpointIcon}
+          draggable
+          eventHandlers={{
+            drag: (e) => boundaryRefs.current[partIndex]?.setLatLngs(inserted((e.target as L.Marker).getLatLng())[partIndex]),
+            dragend: (e) => emitBoundaryEdit(inserted((e.target as L.Marker).getLatLng()))
+          }}
+        />
+      );
+    })
+  ]);
+
+  const boundaryStyle = editableBoundary ? OVERLAY_STYLES.editableBoundary : OVERLAY_STYLES.boundary;
+  const interactive = !onMapClick;
+
+  return (
+    <div ref={wrapperRef} style={{ position: 'relative', width: '100%', height: '100%', isolation: 'isolate' }}>
+      <MapContainer
+        center={DEFAULT_VIEW.center}
+        zoom={DEFAULT_VIEW.zoom}
+        style={{ width: '100%', height: '100%' }}
+      >
+        <TileLayer url={TILE_SOURCE.url} attribution={TILE_SOURCE.attribution} maxZoom={TILE_SOURCE.maxZoom} />
+        <FitToBoundary boundaryPaths={boundaryPaths} skipFitRef={skipFitRef} />
+        <MapClicks onMapClick={onMapClick} />
+
+        {OVERLAY_Z_INDEXES.map(z => (
+          <OverlayPane key={z} zIndex={z}>
+            {/* Render Grid Cells (Colored or Plain) */}
+            {z === cellLayer.style.zIndex && cellLayer.cells.length > 0 && (
+              <CellLayer
+                cells={cellLayer.cells}
+                style={cellLayer.style}
+                interactive={cellLayer.colored && interactive}
+                onHover={handleCellHover}
+                onHoverEnd={hideTooltip}
+                onCellClick={onCellClick}
+              />
+            )}
+
+            {/* Render Contour Bands */}
+            {z === OVERLAY_STYLES.contourBand.zIndex && contourBands?.map((band, index) => (
+              <Polygon
+                key={`contour-${index}-${interactive}`}
+                positions={band.parts}
+                pathOptions={areaOptions({ ...OVERLAY_STYLES.contourBand, fillColor: band.color })}
+                interactive={interactive}
+                eventHandlers={{
+                  mouseover: (e) => handleCellHover(band.tooltip, e),
+                  mousemove: (e) => handleCellHover(band.tooltip, e),
+                  mouseout: hideTooltip
+                }}
+              />
+            ))}
+
+            {/* Render the Boundary Polygon (one per part, holes as inner paths) */}
+            {z === boundaryStyle.zIndex && boundaryPaths && boundaryPaths.map((rings, partIndex) => (
+              <Polygon
+                key={`boundary-${partIndex}`}
+                ref={(poly) => { boundaryRefs.current[partIndex] = poly; }}
+                positions={rings}
+                pathOptions={areaOptions(boundaryStyle)}
+                // Edited through the vertex handles; the fill would otherwise take the cells' hovers and clicks
+                interactive={false}
+              />
+            ))}
+
+            {/* Render Roads */}
+            {roads && roads.map((roadPath, index) => {
+              const style = closestRoadIndex === index ? OVERLAY_STYLES.selectedRoad : OVERLAY_STYLES.road;
+              return z === style.zIndex && (
+                <Polyline key={`road-${index}`} positions={roadPath} pathOptions={lineOptions(style)} />
+              );
+            })}
+
+            {/* Render Road Frontage */}
+            {z === OVERLAY_STYLES.frontage.zIndex && frontageLines?.map((line, index) => (
+              <Polyline
+                key={`frontage-${index}`}
+                positions={line.path}
+                pathOptions={lineOptions({ ...OVERLAY_STYLES.frontage, color: line.color })}
+                interactive={false}
+              />
+            ))}
+
+            {/* Render Connection Lines to the Other Nearby Roads */}
+            {z === OVERLAY_STYLES.alternativeConnection.zIndex && alternativeConnections?.map((path, index) => (
+              <Polyline key={`alt-connection-${index}`} positions={path} pathOptions={lineOptions(OVERLAY_STYLES.alternativeConnection)} />
+            ))}
+
+            {/* Render Connection Line */}
+            {z === OVERLAY_STYLES.connection.zIndex && connectionLine && (
+              <Polyline positions={connectionLine} pathOptions={lineOptions(OVERLAY_STYLES.connection)} />
+            )}
+
+            {/* Render the Inspected Cell and its Line to the Road */}
+            {z === OVERLAY_STYLES.inspectedCell.zIndex && inspectedCell && (
+              <>
+                <Polygon positions={inspectedCell.path} pathOptions={areaOptions(OVERLAY_STYLES.inspectedCell)} interactive={false} />
+                {inspectedCell.roadLine && (
+                  <>
+                    <Polyline positions={inspectedCell.roadLine} pathOptions={lineOptions(OVERLAY_STYLES.inspectedRoadLine)} interactive={false} />
+                    <CircleMarker
+                      center={inspectedCell.roadLine[inspectedCell.roadLine.length - 1]}
+                      radius={3}
+                      pathOptions={{ stroke: false, fillColor: OVERLAY_STYLES.inspectedRoadLine.color, fillOpacity: 1 }}
+                      interactive={false}
+                    />
+                  </>
+                )}
+              </>
+            )}
+
+            {/* Render Boundary Being Drawn */}
+            {z === OVERLAY_STYLES.draft.zIndex && draftPath && draftPath.length > 0 && (
+              <Polyline
+                positions={draftPath.length > 2 ? [...draftPath, draftPath[0]] : draftPath}
+                pathOptions={lineOptions(OVERLAY_STYLES.draft)}
+                interactive={false}
+              />
+            )}
+          </OverlayPane>
+        ))}
+
+        {/* Markers sit above every overlay, as in Google Maps */}
+        {draftPath && draftPath.map((pt, index) => (
+          <CircleMarker
+            key={`draft-${index}`}
+            center={pt}
+            pane="markerPane"
+            radius={OVERLAY_STYLES.draftVertex.radius}
+            pathOptions={pointOptions(OVERLAY_STYLES.draftVertex)}
+            interactive={false}
+          />
+        ))}
+
+        {/* Render Points of Interest */}
+        {pois && pois.map((poi, index) => (
+          <CircleMarker
+            key={`poi-${index}-${interactive}`}
+            center={poi.position}
+            pane="markerPane"
+            radius={OVERLAY_STYLES.poi.radius}
+            pathOptions={pointOptions({ ...OVERLAY_STYLES.poi, fillColor: poi.color })}
+            interactive={interactive}
+          >
+            <Tooltip>{poi.title}</Tooltip>
+          </CircleMarker>
+        ))}
+
+        {/* Render Access Points (network distance targets) */}
+        {accessPoints && accessPoints.map((pt, index) => (
+          <Marker key={`access-${index}`} position={pt} icon={accessPointIcon(`${index + 1}`)} />
+        ))}
+
+        {editableBoundary && boundaryPaths && boundaryPaths.flatMap(vertexHandles)}
+      </MapContainer>
+      <HoverTooltip tooltipRef={tooltipRef} />
+    </div>
+  );
+}
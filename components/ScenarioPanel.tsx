@@ -0,0 +1,174 @@
+'use client';
+
+import React, { useState } from 'react';
+import { DECAY_FUNCTIONS } from '@/lib/decay';
+import { AREA_UNITS, formatMoney } from '@/lib/pricing';
+import { CellDifference, Scenario } from '@/lib/scenarios';
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  activeId: string | null;
+  canSave: boolean;
+  onSave: (name: string) => void;
+  onLoad: (id: string) => void;
+  onDelete: (id: string) => void;
+  compareIds: string[]; // in the order they were ticked; the first is the baseline
+  onToggleCompare: (id: string) => void;
+  showDifference: boolean;
+  onToggleDifference: () => void;
+  difference: CellDifference[] | null;
+}
+
+const buttonStyle = {
+  padding: '4px 8px',
+  fontSize: '0.75rem',
+  background: 'white',
+  border: '1px solid #ccc',
+  borderRadius: '6px',
+  cursor: 'pointer'
+};
+
+const cellStyle = { padding: '4px 6px', borderBottom: '1px solid #eee', textAlign: 'right' as const };
+
+// Rows of the comparison table
+const STAT_ROWS: [string, (s: Scenario) => string][] = [
+  ['Decay', s => DECAY_FUNCTIONS[s.settings.decayCurve.type].label],
+  ['Reference', s => (s.settings.valuationReference === 'network' ? 'All roads' : 'Closest road')],
+  ['Grid', s => `${s.settings.gridType}, ${s.settings.cellSize}m`],
+  ['Cells', s => String(s.summary.cellCount)],
+  ['Mean value', s => s.summary.meanValue.toFixed(3)],
+  ['Median value', s => s.summary.medianValue.toFixed(3)],
+  ['Min – Max', s => `${s.summary.minValue.toFixed(2)} – ${s.summary.maxValue.toFixed(2)}`],
+  ['Mean distance', s => `${Math.round(s.summary.meanDistance)}m`],
+  ['Total value', s => formatMoney(s.summary.totalPrice, s.settings.pricing.currency)],
+  ['Avg rate', s => {
+    const unit = AREA_UNITS[s.settings.pricing.unit];
+    return `${formatMoney(s.summary.averageRatePerSqM * unit.sqm, s.settings.pricing.currency)}/${unit.label}`;
+  }]
+];
+
+export default function ScenarioPanel({
+  scenarios,
+  activeId,
+  canSave,
+  onSave,
+  onLoad,
+  onDelete,
+  compareIds,
+  onToggleCompare,
+  showDifference,
+  onToggleDifference,
+  difference
+}: ScenarioPanelProps) {
+  const [name, setName] = useState('');
+  const compared = compareIds.map(id => scenarios.find(s => s.id === id)).filter((s): s is Scenario => !!s);
+
+  const handleSave = () => {
+    onSave(name.trim() || `Scenario ${scenarios.length + 1}`);
+    setName('');
+  };
+
+  const deltas = (difference || []).map(d => d.delta).filter((d): d is number => d !== null);
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '1rem' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={`Scenario ${scenarios.length + 1}`}
+          style={{ flex: 1, padding: '6px', borderRadius: '4px', border: '1px solid #ddd', fontSize: '0.85rem' }}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          style={{ ...buttonStyle, fontSize: '0.85rem', padding: '6px 12px', cursor: canSave ? 'pointer' : 'not-allowed' }}
+        >
+          Save Current
+        </button>
+      </div>
+
+      {scenarios.map(s => (
+        <div
+          key={s.id}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '6px 8px',
+            marginBottom: '4px',
+            borderRadius: '6px',
+            fontSize: '0.85rem',
+            background: s.id === activeId ? '#e3f2fd' : '#f5f5f5'
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={compareIds.includes(s.id)}
+            onChange={() => onToggleCompare(s.id)}
+            title="Compare"
+          />
+          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {compareIds.indexOf(s.id) >= 0 && <strong>{String.fromCharCode(65 + compareIds.indexOf(s.id))}: </strong>}
+            {s.name}
+          </span>
+          <button onClick={() => onLoad(s.id)} style={buttonStyle}>Load</button>
+          <button onClick={() => onDelete(s.id)} style={{ ...buttonStyle, color: '#c62828' }}>×</button>
+        </div>
+      ))}
+
+      {compared.length >= 2 && (
+        <div style={{ marginTop: '1rem' }}>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.75rem' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cellStyle, textAlign: 'left' }}></th>
+                  {compared.map((s, i) => (
+                    <th key={s.id} style={cellStyle}>{String.fromCharCode(65 + i)}: {s.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {STAT_ROWS.map(([label, format]) => (
+                  <tr key={label}>
+                    <td style={{ ...cellStyle, textAlign: 'left', color: '#666' }}>{label}</td>
+                    {compared.map(s => <td key={s.id} style={cellStyle}>{format(s)}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <label style={{ display: 'flex', alignItems: 'center', fontSize: '0.85rem', color: '#666', marginTop: '1rem', cursor: 'pointer' }}>
+            <input
+              type="checkbox"
+              checked={showDifference}
+              onChange={onToggleDifference}
+              style={{ marginRight: '6px' }}
+            />
+            Show difference map (B − A)
+          </label>
+
+          {showDifference && difference && (
+            <div style={{ marginTop: '8px', padding: '10px', background: '#f5f5f5', borderRadius: '6px', fontSize: '0.8rem' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+                <span>B lower</span>
+                <span>B higher</span>
+              </div>
+              <div style={{ height: '10px', background: 'linear-gradient(to right, rgb(5,48,97), rgb(247,247,247), rgb(103,0,31))', borderRadius: '4px', marginBottom: '5px' }}></div>
+              {deltas.length > 0 && (
+                <div style={{ color: '#666' }}>
+                  Mean change: <strong>{(deltas.reduce((a, b) => a + b, 0) / deltas.length).toFixed(3)}</strong>,
+                  {' '}higher in {deltas.filter(d => d > 0).length}, lower in {deltas.filter(d => d < 0).length} of {difference.length} cells
+                  {deltas.length < difference.length && `, ${difference.length - deltas.length} unmatched (grey)`}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import React from 'react';
+import type { ValueScale } from '@/lib/colorScale';
+
+// Colours in a continuous legend bar; enough for every scheme to look smooth
+const GRADIENT_STOPS = 11;
+
+const formatValue = (v: number) => v.toFixed(2);
+
+// Legend drawn from the same scale that colours the cells, low values first
+export default function ValueLegend({ scale }: { scale: ValueScale }) {
+  const [low, high] = scale.domain;
+
+  if (scale.classes.length === 0) {
+    const stops = Array.from({ length: GRADIENT_STOPS }, (_, i) => scale.color(low + (high - low) * i / (GRADIENT_STOPS - 1)));
+    return (
+      <div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px' }}>
+          <span>Low Value</span>
+          <span>High Value</span>
+        </div>
+        <div style={{ height: '10px', background: `linear-gradient(to right, ${stops.join(', ')})`, borderRadius: '4px', marginBottom: '5px' }}></div>
+        <div style={{ display: 'flex', justifyContent: 'space-between', color: '#666' }}>
+          <span>{formatValue(low)}</span>
+          <span>{formatValue((low + high) / 2)}</span>
+          <span>{formatValue(high)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+      <tbody>
+        {scale.classes.map((c, i) => (
+          <tr key={i}>
+            <td style={{ width: '18px', padding: '2px 0' }}>
+              <span style={{ display: 'block', width: '14px', height: '14px', background: c.color, border: '1px solid rgba(0,0,0,0.2)', borderRadius: '2px' }}></span>
+            </td>
+            <td style={{ padding: '2px 4px' }}>
+              {formatValue(c.from)} – {formatValue(c.to)}
+            </td>
+            <td style={{ padding: '2px 0', textAlign: 'right', color: '#666' }}>
+              {c.count.toLocaleString()} {c.count === 1 ? 'cell' : 'cells'}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
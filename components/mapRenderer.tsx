@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useCallback, useMemo, useRef } from 'react';
+import type { LodCell } from '@/lib/cellLod';
+
+// What the map backends (GoogleMapRenderer, LeafletMapRenderer) share: the
+// props MapComponent hands them, which backend to use, and the overlay styles
+// both draw with, so switching backends doesn't change how results look.
+
+export type LatLng = { lat: number, lng: number };
+
+export interface MapRendererProps {
+  boundaryPaths: LatLng[][][] | null; // parts -> [outer ring, ...holes]
+  roads?: LatLng[][];
+  closestRoadIndex?: number | null;
+  connectionLine?: LatLng[] | null;
+  alternativeConnections?: LatLng[][]; // Connection lines to the other nearby roads
+  frontageLines?: { path: LatLng[], color: string }[]; // Boundary stretches along a road
+  gridCells?: LatLng[][];
+  coloredCells?: LodCell[];
+  onCellClick?: (index: number) => void; // Index into coloredCells
+  inspectedCell?: { path: LatLng[], roadLine: LatLng[] | null } | null; // Pinned cell and its line to the road
+  contourBands?: { parts: LatLng[][][], color: string, tooltip: string }[]; // Drawn instead of the cells
+  accessPoints?: LatLng[];
+  pois?: { position: LatLng, color: string, title: string }[];
+  onMapClick?: (latLng: LatLng) => void; // When set, overlays stop capturing clicks
+  draftPath?: LatLng[]; // Boundary being drawn, vertex by vertex
+  editableBoundary?: boolean;
+  onBoundaryEdit?: (paths: LatLng[][][]) => void;
+}
+
+export type MapRendererKind = 'google' | 'leaflet';
+
+// NEXT_PUBLIC_MAP_RENDERER picks the backend; unset, Google is used only when it has an API key
+export const MAP_RENDERER: MapRendererKind =
+  process.env.NEXT_PUBLIC_MAP_RENDERER === 'google' || process.env.NEXT_PUBLIC_MAP_RENDERER === 'leaflet'
+    ? process.env.NEXT_PUBLIC_MAP_RENDERER
+    : process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ? 'google' : 'leaflet';
+
+// Raster tiles for the Leaflet backend; point the URL at a self-hosted or local tile server
+export const TILE_SOURCE = {
+  url: process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION
+    || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+  maxZoom: Number(process.env.NEXT_PUBLIC_MAP_TILE_MAX_ZOOM) || 19
+};
+
+export const DEFAULT_VIEW = {
+  center: { lat: 40.7580, lng: -73.9855 }, // Midtown NYC
+  zoom: 12
+};
+
+// zIndex orders overlays the same way in both backends (higher draws on top)
+export interface LineStyle { color: string, weight: number, opacity: number, dashed?: boolean, zIndex: number }
+export interface AreaStyle { fillColor: string, fillOpacity: number, color: string, opacity: number, weight: number, zIndex: number }
+export interface PointStyle { radius: number, fillColor: string, fillOpacity: number, color: string, weight: number }
+
+export const OVERLAY_STYLES: {
+  road: LineStyle;
+  selectedRoad: LineStyle;
+  frontage: Omit<LineStyle, 'color'>; // coloured per line
+  alternativeConnection: LineStyle;
+  connection: LineStyle;
+  cell: Omit<AreaStyle, 'fillColor'>; // coloured per cell
+  contourBand: Omit<AreaStyle, 'fillColor'>; // coloured per band
+  gridCell: AreaStyle;
+  boundary: AreaStyle;
+  editableBoundary: AreaStyle;
+  inspectedCell: AreaStyle;
+  inspectedRoadLine: LineStyle;
+  draft: LineStyle;
+  draftVertex: PointStyle;
+  poi: Omit<PointStyle, 'fillColor'>; // coloured per category
+} = {
+  road: { color: '#FF6F00', weight: 2, opacity: 0.6, zIndex: 2 },
+  selectedRoad: { color: '#FF3D00', weight: 6, opacity: 1, zIndex: 10 },
+  frontage: { weight: 6, opacity: 0.9, zIndex: 13 },
+  alternativeConnection: { color: '#757575', weight: 1, opacity: 0.7, dashed: true, zIndex: 14 },
+  connection: { color: '#000000', weight: 2, opacity: 1, dashed: true, zIndex: 15 },
+  cell: { fillOpacity: 0.6, color: '#ffffff', opacity: 0.3, weight: 1, zIndex: 0 },
+  contourBand: { fillOpacity: 0.6, color: '#333333', opacity: 0.8, weight: 1, zIndex: 0 },
+  gridCell: { fillColor: '#EEEEEE', fillOpacity: 0.4, color: '#888888', opacity: 0.5, weight: 1, zIndex: 0 },
+  boundary: { fillColor: '#007aff', fillOpacity: 0.3, color: '#007aff', opacity: 0.8, weight: 2, zIndex: 1 },
+  editableBoundary: { fillColor: '#007aff', fillOpacity: 0.15, color: '#007aff', opacity: 0.8, weight: 2, zIndex: 20 },
+  inspectedCell: { fillColor: '#000000', fillOpacity: 0, color: '#000000', opacity: 0.9, weight: 3, zIndex: 16 },
+  inspectedRoadLine: { color: '#000000', weight: 2, opacity: 0.9, zIndex: 16 },
+  draft: { color: '#007aff', weight: 2, opacity: 0.9, zIndex: 20 },
+  draftVertex: { radius: 4, fillColor: '#ffffff', fillOpacity: 1, color: '#007aff', weight: 2 },
+  poi: { radius: 5, fillOpacity: 0.9, color: '#ffffff', weight: 1 }
+};
+
+/**
+ * What the batched cell layer draws: the coloured cells when there are any,
+ * otherwise the plain grid in its single colour. Both backends draw these in
+ * one layer at the level of detail for the zoom (lib/cellLod) rather than as a
+ * component per cell.
+ */
+export function useCellLayer(gridCells?: LatLng[][], coloredCells?: LodCell[]) {
+  return useMemo(() => {
+    if (coloredCells && coloredCells.length > 0) {
+      return { cells: coloredCells, style: OVERLAY_STYLES.cell, colored: true };
+    }
+    const { fillColor, ...style } = OVERLAY_STYLES.gridCell;
+    return {
+      cells: (gridCells || []).map(path => ({ path, color: fillColor, tooltip: '', value: NaN })),
+      style,
+      colored: false
+    };
+  }, [gridCells, coloredCells]);
+}
+
+export function MapMessage({ children, error }: { children: React.ReactNode, error?: boolean }) {
+  return error
+    ? <div style={{ padding: '20px', color: 'red' }}>{children}</div>
+    : <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', height: '100%', background: '#eee' }}>{children}</div>;
+}
+
+/**
+ * Cell hover tooltip. It is moved and filled in directly, so following the
+ * mouse doesn't re-render every cell; wrapperRef goes on the element the map
+ * fills and tooltipRef on <HoverTooltip>.
+ */
+export function useHoverTooltip() {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+
+  const show = useCallback((text: string, clientX: number, clientY: number) => {
+    const tooltip = tooltipRef.current;
+    const wrapper = wrapperRef.current;
+    if (!tooltip || !wrapper) return;
+    const rect = wrapper.getBoundingClientRect();
+    tooltip.textContent = text;
+    tooltip.style.left = `${clientX - rect.left + 12}px`;
+    tooltip.style.top = `${clientY - rect.top + 12}px`;
+    tooltip.style.display = 'block';
+  }, []);
+
+  const hide = useCallback(() => {
+    if (tooltipRef.current) tooltipRef.current.style.display = 'none';
+  }, []);
+
+  return { wrapperRef, tooltipRef, show, hide };
+}
+
+export function HoverTooltip({ tooltipRef }: { tooltipRef: React.RefObject<HTMLDivElement | null> }) {
+  return (
+    <div
+      ref={tooltipRef}
+      style={{
+        display: 'none', position: 'absolute', pointerEvents: 'none', zIndex: 1000, maxWidth: '280px',
+        padding: '6px 8px', background: 'rgba(33, 33, 33, 0.9)', color: 'white', borderRadius: '6px',
+        fontSize: '0.75rem', lineHeight: 1.4
+      }}
+    />
+  );
+}
@@ -0,0 +1,246 @@
+import { Feature, LineString, MultiPolygon, Point, Polygon, Position } from 'geojson';
+import {
+    calculateCompositeLandValues,
+    calculateLandValues,
+    calculateMultiRoadLandValues,
+    CellValue,
+    ClosestRoadResult,
+    DEFAULT_ROAD_CLASS_WEIGHTS,
+    findClosestRoadAndConnection,
+    findClosestRoads,
+    generateSubdivisionGrid,
+    getRoadBearingAt,
+    GridType,
+    NearbyRoad,
+    PoiFactor,
+    ProgressFn,
+    RoadClassWeights
+} from './geo';
+import { DecayCurve, parseDecayCurve } from './decay';
+import { AREA_UNITS, AreaUnit, DEFAULT_PRICING, PricingSettings } from './pricing';
+import { CLASSIFICATION_METHODS, ClassificationMethod, COLOR_SCHEMES, ColorSchemeId, ColorSettings, DEFAULT_COLOR_SETTINGS } from './colorScale';
+import { POI_CATEGORIES } from './poi';
+import { buildRoadGraph, createNetworkDistanceFn } from './roadGraph';
+
+// The analysis pipeline behind the sidebar buttons (closest road -> grid ->
+// valuation), driven by a plain settings object instead of React state so a
+// restored project or scenario can be re-run in one go.
+
+// Everything in the sidebar that affects the result
+export interface AnalysisSettings {
+    bufferDistance: number;
+    roadTypes: Record<string, boolean>;
+    cellSize: number;
+    gridType: GridType;
+    decayCurve: DecayCurve;
+    valuationReference: 'closest' | 'network';
+    roadWeights: RoadClassWeights;
+    distanceMetric: 'straight' | 'travel';
+    networkTarget: 'road' | 'points';
+    accessPoints: Position[];
+    poiCategories: string[];
+    usePoiFactors: boolean;
+    roadFactorWeight: number;
+    poiFactorSettings: Record<string, { weight: number, halfDistance: number }>;
+    pricing: PricingSettings;
+    colors: ColorSettings;
+}
+
+// Starting values of the sidebar controls
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+    bufferDistance: 300,
+    roadTypes: { motorway: true, trunk: true, primary: true, secondary: true, tertiary: false, residential: false },
+    cellSize: 50,
+    gridType: 'square',
+    decayCurve: { type: 'linear' },
+    valuationReference: 'closest',
+    roadWeights: DEFAULT_ROAD_CLASS_WEIGHTS,
+    distanceMetric: 'straight',
+    networkTarget: 'road',
+    accessPoints: [],
+    poiCategories: POI_CATEGORIES.map(c => c.id),
+    usePoiFactors: false,
+    roadFactorWeight: 1,
+    poiFactorSettings: Object.fromEntries(
+        POI_CATEGORIES.map(c => [c.id, { weight: c.defaultWeight, halfDistance: c.defaultHalfDistance }])
+    ),
+    pricing: DEFAULT_PRICING,
+    colors: DEFAULT_COLOR_SETTINGS
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+/**
+ * Settings from a project file, share link or API request, with anything
+ * missing or unusable falling back to the defaults. `roadTypes` may also be
+ * given as a list of highway classes.
+ */
+export function parseAnalysisSettings(raw: unknown): AnalysisSettings {
+    const s = isObject(raw) ? raw : {};
+    const d = DEFAULT_ANALYSIS_SETTINGS;
+    const num = (v: unknown, fallback: number) => (typeof v === 'number' && Number.isFinite(v) ? v : fallback);
+    const oneOf = <T extends string>(v: unknown, options: readonly T[], fallback: T): T =>
+        (options as readonly unknown[]).includes(v) ? v as T : fallback;
+    const record = <T>(v: unknown, fallback: Record<string, T>) => (isObject(v) ? { ...fallback, ...v as Record<string, T> } : fallback);
+
+    const roadTypes = Array.isArray(s.roadTypes)
+        ? Object.fromEntries((s.roadTypes as unknown[]).map(t => [String(t), true]))
+        : record(s.roadTypes, d.roadTypes);
+
+    const colors = isObject(s.colors) ? s.colors : {};
+
+    const pricing = isObject(s.pricing) ? s.pricing : {};
+
+    return {
+        bufferDistance: num(s.bufferDistance, d.bufferDistance),
+        roadTypes,
+        cellSize: num(s.cellSize, d.cellSize),
+        gridType: oneOf(s.gridType, ['square', 'hexagon', 'triangle', 'aligned'] as const, d.gridType),
+        decayCurve: parseDecayCurve(s.decayCurve, d.decayCurve),
+        valuationReference: oneOf(s.valuationReference, ['closest', 'network'] as const, d.valuationReference),
+        roadWeights: record(s.roadWeights, d.roadWeights),
+        distanceMetric: oneOf(s.distanceMetric, ['straight', 'travel'] as const, d.distanceMetric),
+        networkTarget: oneOf(s.networkTarget, ['road', 'points'] as const, d.networkTarget),
+        accessPoints: Array.isArray(s.accessPoints)
+            ? (s.accessPoints as unknown[]).filter((p): p is Position => Array.isArray(p) && p.length >= 2 && p.every(Number.isFinite))
+            : d.accessPoints,
+        poiCategories: Array.isArray(s.poiCategories) ? (s.poiCategories as unknown[]).map(String) : d.poiCategories,
+        usePoiFactors: typeof s.usePoiFactors === 'boolean' ? s.usePoiFactors : d.usePoiFactors,
+        roadFactorWeight: num(s.roadFactorWeight, d.roadFactorWeight),
+        poiFactorSettings: record(s.poiFactorSettings, d.poiFactorSettings),
+        pricing: {
+            baseRate: num(pricing.baseRate, d.pricing.baseRate),
+            unit: oneOf(pricing.unit, Object.keys(AREA_UNITS) as AreaUnit[], d.pricing.unit),
+            currency: typeof pricing.currency === 'string' && pricing.currency ? pricing.currency : d.pricing.currency,
+            floorMultiplier: num(pricing.floorMultiplier, d.pricing.floorMultiplier),
+            ceilingMultiplier: num(pricing.ceilingMultiplier, d.pricing.ceilingMultiplier)
+        },
+        colors: {
+            scheme: oneOf(colors.scheme, Object.keys(COLOR_SCHEMES) as ColorSchemeId[], d.colors.scheme),
+            reverse: typeof colors.reverse === 'boolean' ? colors.reverse : d.colors.reverse,
+            method: oneOf(colors.method, Object.keys(CLASSIFICATION_METHODS) as ClassificationMethod[], d.colors.method),
+            classes: num(colors.classes, d.colors.classes)
+        }
+    };
+}
+
+// A missing prerequisite the user can fix; the message is shown as is
+export class AnalysisError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AnalysisError';
+    }
+}
+
+export function selectedRoadTypes(settings: Pick<AnalysisSettings, 'roadTypes'>): string[] {
+    return Object.entries(settings.roadTypes).filter(([, enabled]) => enabled).map(([type]) => type);
+}
+
+/**
+ * Closest road to the boundary, or the distance to `preferredIndex` when a
+ * specific road was chosen (e.g. in a restored project) and still exists.
+ */
+export function findReferenceRoad(
+    boundary: Feature<Polygon | MultiPolygon>,
+    roads: Feature<LineString>[],
+    preferredIndex?: number | null,
+    onProgress?: ProgressFn
+): ClosestRoadResult | null {
+    if (preferredIndex !== undefined && preferredIndex !== null && roads[preferredIndex]) {
+        const result = findClosestRoadAndConnection(boundary, [roads[preferredIndex]], onProgress);
+        return result && { ...result, roadIndex: preferredIndex };
+    }
+    return findClosestRoadAndConnection(boundary, roads, onProgress);
+}
+
+/**
+ * The `count` closest roads, plus the `preferredIndex` road (e.g. the reference
+ * chosen in a restored project) when it isn't among them.
+ */
+export function findNearbyRoads(
+    boundary: Feature<Polygon | MultiPolygon>,
+    roads: Feature<LineString>[],
+    count: number,
+    preferredIndex?: number | null,
+    onProgress?: ProgressFn
+): NearbyRoad[] {
+    const nearby = findClosestRoads(boundary, roads, count, onProgress);
+    if (preferredIndex !== undefined && preferredIndex !== null && roads[preferredIndex]
+        && !nearby.some(r => r.roadIndex === preferredIndex)) {
+        const [preferred] = findClosestRoads(boundary, [roads[preferredIndex]], 1);
+        if (preferred) nearby.push({ ...preferred, roadIndex: preferredIndex });
+    }
+    return nearby;
+}
+
+export function buildGrid(
+    boundary: Feature<Polygon | MultiPolygon>,
+    roads: Feature<LineString>[],
+    closestRoad: ClosestRoadResult | null,
+    settings: Pick<AnalysisSettings, 'cellSize' | 'gridType'>,
+    onProgress?: ProgressFn
+): Feature<Polygon>[] {
+    let bearing = 0;
+    if (settings.gridType === 'aligned') {
+        if (!closestRoad) {
+            throw new AnalysisError("Calculate the distance to the main road first to align the grid with it.");
+        }
+        // connection[1] is the point on the closest road
+        bearing = getRoadBearingAt(roads[closestRoad.roadIndex], closestRoad.connection[1]);
+    }
+    return generateSubdivisionGrid(boundary, settings.cellSize, settings.gridType, bearing, onProgress);
+}
+
+export function poiFactorsFor(pois: Feature<Point>[], settings: Pick<AnalysisSettings, 'poiCategories' | 'poiFactorSettings'>): PoiFactor[] {
+    return POI_CATEGORIES
+        .filter(c => settings.poiCategories.includes(c.id))
+        .map(c => ({
+            category: c.id,
+            points: pois.filter(p => p.properties?.category === c.id).map(p => p.geometry.coordinates),
+            weight: settings.poiFactorSettings[c.id]?.weight ?? c.defaultWeight,
+            halfDistance: settings.poiFactorSettings[c.id]?.halfDistance ?? c.defaultHalfDistance
+        }));
+}
+
+export function valueCells(
+    cells: Feature<Polygon>[],
+    roads: Feature<LineString>[],
+    closestRoad: ClosestRoadResult | null,
+    settings: AnalysisSettings,
+    pois: Feature<Point>[] = [],
+    onProgress?: ProgressFn
+): CellValue[] {
+    if (cells.length === 0 || roads.length === 0) {
+        throw new AnalysisError("Please generate grid and fetch roads first.");
+    }
+
+    // With POI factors every cell is visited twice (roads, then POIs); progress covers both passes
+    const withPois = settings.usePoiFactors && pois.length > 0;
+    const total = cells.length * (withPois ? 2 : 1);
+    const pass = (offset: number): ProgressFn | undefined => onProgress && (done => onProgress(offset + done, total));
+
+    let results: CellValue[];
+    if (settings.valuationReference === 'network') {
+        results = calculateMultiRoadLandValues(cells, roads, settings.decayCurve, settings.roadWeights, undefined, pass(0));
+    } else {
+        if (!closestRoad) throw new AnalysisError("Please generate grid and select a closest road first.");
+        const roadIndex = closestRoad.roadIndex;
+
+        let networkDistanceFn;
+        if (settings.distanceMetric === 'travel') {
+            if (settings.networkTarget === 'points' && settings.accessPoints.length === 0) {
+                throw new AnalysisError("Click the map to add at least one access point.");
+            }
+            const graph = buildRoadGraph(roads);
+            networkDistanceFn = createNetworkDistanceFn(graph, settings.networkTarget === 'road'
+                ? { type: 'road', roadIndex }
+                : { type: 'points', points: settings.accessPoints });
+        }
+        results = calculateLandValues(cells, roads, roadIndex, settings.decayCurve, undefined, networkDistanceFn, pass(0));
+    }
+
+    if (withPois) {
+        results = calculateCompositeLandValues(results, poiFactorsFor(pois, settings), settings.roadFactorWeight, pass(cells.length));
+    }
+    return results;
+}
@@ -0,0 +1,54 @@
+import { Feature, LineString } from 'geojson';
+import { ProgressFn } from './geo';
+import { AnalysisError, buildGrid, findNearbyRoads, valueCells } from './analysis';
+import type { AnalysisStep, AnalysisTask, AnalysisWorkerMessage, AnalysisWorkerRequest } from './analysisWorker';
+
+// Worker side of lib/analysisWorker: keeps the last roads it was sent and runs
+// each task against them, posting its result.
+
+// Progress is posted at most this often; the steps call back once per cell
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (msg: AnalysisWorkerMessage) => self.postMessage(msg);
+
+// The same array for every task until new roads arrive, so getRoadIndex finds its index
+let roads: Feature<LineString>[] = [];
+
+function progressReporter(step: AnalysisStep): ProgressFn {
+    let last = 0;
+    return (done, total) => {
+        const now = Date.now();
+        if (done < total && now - last < PROGRESS_INTERVAL_MS) return;
+        last = now;
+        post({ type: 'progress', step, done, total });
+    };
+}
+
+function run(task: AnalysisTask): unknown {
+    const onProgress = progressReporter(task.step);
+    switch (task.step) {
+        case 'closestRoad':
+            return findNearbyRoads(task.boundary, roads, task.count, task.preferredIndex, onProgress);
+        case 'grid':
+            return buildGrid(task.boundary, roads, task.closestRoad, task.settings, onProgress);
+        case 'valuation':
+            return valueCells(task.cells, roads, task.closestRoad, task.settings, task.pois, onProgress);
+    }
+}
+
+self.onmessage = (e: MessageEvent<AnalysisWorkerRequest>) => {
+    const msg = e.data;
+    if (msg.type === 'roads') {
+        roads = msg.roads;
+        return;
+    }
+    try {
+        post({ type: 'result', result: run(msg.task) });
+    } catch (error) {
+        post({
+            type: 'error',
+            message: error instanceof Error ? error.message : String(error),
+            analysisError: error instanceof AnalysisError
+        });
+    }
+};
@@ -0,0 +1,166 @@
+import { Feature, LineString, MultiPolygon, Point, Polygon } from 'geojson';
+import { CellValue, ClosestRoadResult, NearbyRoad } from './geo';
+import { AnalysisError, AnalysisSettings } from './analysis';
+
+// Runs the heavy lib/analysis steps (closest road, grid, valuation) in a Web
+// Worker so the page stays responsive on large boundaries. One worker serves
+// every run and reports progress while it works; the roads are posted to it
+// once per fetched array, so its road index (lib/roadIndex) is built once and
+// reused by every step. Cancelling terminates the worker and the next run
+// starts a new one. Browser-side only.
+
+export type AnalysisStep = 'closestRoad' | 'grid' | 'valuation';
+
+export type AnalysisTask =
+    | {
+        step: 'closestRoad';
+        boundary: Feature<Polygon | MultiPolygon>;
+        count: number;
+        preferredIndex?: number | null;
+    }
+    | {
+        step: 'grid';
+        boundary: Feature<Polygon | MultiPolygon>;
+        closestRoad: ClosestRoadResult | null;
+        settings: Pick<AnalysisSettings, 'cellSize' | 'gridType'>;
+    }
+    | {
+        step: 'valuation';
+        cells: Feature<Polygon>[];
+        closestRoad: ClosestRoadResult | null;
+        settings: AnalysisSettings;
+        pois: Feature<Point>[];
+    };
+
+// Page -> worker: the roads the following tasks run against, then the tasks
+export type AnalysisWorkerRequest =
+    | { type: 'roads'; roads: Feature<LineString>[] }
+    | { type: 'task'; task: AnalysisTask };
+
+// Worker -> page
+export type AnalysisWorkerMessage =
+    | { type: 'progress'; step: AnalysisStep; done: number; total: number }
+    | { type: 'result'; result: unknown }
+    | { type: 'error'; message: string; analysisError: boolean };
+
+export interface AnalysisProgress {
+    step: AnalysisStep;
+    done: number;
+    total: number;
+}
+
+export interface AnalysisRun<T> {
+    result: Promise<T>; // rejects with AnalysisCancelledError after cancel()
+    cancel: () => void;
+}
+
+export class AnalysisCancelledError extends Error {
+    constructor() {
+        super('Analysis cancelled.');
+        this.name = 'AnalysisCancelledError';
+    }
+}
+
+// The worker and the roads array it last received
+let shared: { worker: Worker; roads: Feature<LineString>[] | null } | null = null;
+
+// Cancels the run in progress; runs go one at a time
+let cancelCurrent: (() => void) | null = null;
+
+function runTask<T>(
+    task: AnalysisTask,
+    roads: Feature<LineString>[],
+    onProgress?: (progress: AnalysisProgress) => void
+): AnalysisRun<T> {
+    cancelCurrent?.();
+    if (!shared) {
+        shared = { worker: new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' }), roads: null };
+    }
+    const current = shared;
+    const { worker } = current;
+    const post = (msg: AnalysisWorkerRequest) => worker.postMessage(msg);
+    if (current.roads !== roads) {
+        post({ type: 'roads', roads });
+        current.roads = roads;
+    }
+
+    // A worker stuck in a run or broken by an error can't serve the next one
+    const discardWorker = () => {
+        worker.terminate();
+        if (shared === current) shared = null;
+    };
+
+    let settle: { reject: (e: Error) => void } | null = null;
+    const finish = () => {
+        settle = null;
+        worker.onmessage = null;
+        worker.onerror = null;
+        cancelCurrent = null;
+    };
+
+    const result = new Promise<T>((resolve, reject) => {
+        settle = { reject };
+        worker.onmessage = (e: MessageEvent<AnalysisWorkerMessage>) => {
+            const msg = e.data;
+            if (msg.type === 'progress') {
+                onProgress?.({ step: msg.step, done: msg.done, total: msg.total });
+                return;
+            }
+            finish();
+            if (msg.type === 'result') {
+                resolve(msg.result as T);
+            } else {
+                reject(msg.analysisError ? new AnalysisError(msg.message) : new Error(msg.message));
+            }
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            discardWorker();
+            finish();
+            reject(new Error(e.message || 'Analysis worker failed'));
+        };
+        post({ type: 'task', task });
+    });
+
+    const cancel = () => {
+        if (!settle) return;
+        const { reject } = settle;
+        discardWorker();
+        finish();
+        reject(new AnalysisCancelledError());
+    };
+    cancelCurrent = cancel;
+
+    return { result, cancel };
+}
+
+// The `count` closest roads, nearest first, plus the preferred road if it isn't among them (lib/analysis findNearbyRoads)
+export function runClosestRoads(
+    boundary: Feature<Polygon | MultiPolygon>,
+    roads: Feature<LineString>[],
+    count: number,
+    preferredIndex: number | null,
+    onProgress?: (progress: AnalysisProgress) => void
+): AnalysisRun<NearbyRoad[]> {
+    return runTask({ step: 'closestRoad', boundary, count, preferredIndex }, roads, onProgress);
+}
+
+export function runGrid(
+    boundary: Feature<Polygon | MultiPolygon>,
+    roads: Feature<LineString>[],
+    closestRoad: ClosestRoadResult | null,
+    settings: Pick<AnalysisSettings, 'cellSize' | 'gridType'>,
+    onProgress?: (progress: AnalysisProgress) => void
+): AnalysisRun<Feature<Polygon>[]> {
+    return runTask({ step: 'grid', boundary, closestRoad, settings: { cellSize: settings.cellSize, gridType: settings.gridType } }, roads, onProgress);
+}
+
+export function runValuation(
+    cells: Feature<Polygon>[],
+    roads: Feature<LineString>[],
+    closestRoad: ClosestRoadResult | null,
+    settings: AnalysisSettings,
+    pois: Feature<Point>[],
+    onProgress?: (progress: AnalysisProgress) => void
+): AnalysisRun<CellValue[]> {
+    return runTask({ step: 'valuation', cells, closestRoad, settings, pois }, roads, onProgress);
+}
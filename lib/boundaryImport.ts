@@ -0,0 +1,138 @@
+import { kml as kmlToGeoJSON, gpx as gpxToGeoJSON } from '@tmcw/togeojson';
+import { parse as parseWKT } from 'wellknown';
+import { multiPolygon, polygon } from '@turf/helpers';
+import { Feature, Geometry, MultiPolygon, Polygon, Position } from 'geojson';
+
+export type BoundaryFormat = 'geojson' | 'kml' | 'gpx' | 'wkt';
+
+const FORMAT_LABELS: Record<BoundaryFormat, string> = {
+    geojson: 'GeoJSON',
+    kml: 'KML',
+    gpx: 'GPX',
+    wkt: 'WKT'
+};
+
+// Guess the format from the file extension, falling back to sniffing the content
+export function detectBoundaryFormat(text: string, filename?: string): BoundaryFormat {
+    const ext = filename?.split('.').pop()?.toLowerCase();
+    if (ext === 'geojson' || ext === 'json') return 'geojson';
+    if (ext === 'kml') return 'kml';
+    if (ext === 'gpx') return 'gpx';
+    if (ext === 'wkt' || ext === 'txt') return 'wkt';
+
+    const head = text.trimStart().slice(0, 500);
+    if (head.startsWith('{')) return 'geojson';
+    if (head.startsWith('<')) return /<gpx[\s>]/i.test(head) ? 'gpx' : 'kml';
+    return 'wkt';
+}
+
+function parseXml(text: string): Document {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error('File is not valid XML.');
+    }
+    return doc;
+}
+
+// Flatten any GeoJSON object into its geometries
+function collectGeometries(obj: unknown): Geometry[] {
+    if (!obj || typeof obj !== 'object') return [];
+    const o = obj as { type?: string; features?: unknown[]; geometry?: unknown; geometries?: unknown[] };
+    switch (o.type) {
+        case 'FeatureCollection':
+            return (o.features || []).flatMap(collectGeometries);
+        case 'Feature':
+            return collectGeometries(o.geometry);
+        case 'GeometryCollection':
+            return (o.geometries || []).flatMap(collectGeometries);
+        case 'Point':
+        case 'MultiPoint':
+        case 'LineString':
+        case 'MultiLineString':
+        case 'Polygon':
+        case 'MultiPolygon':
+            return [o as Geometry];
+        default:
+            return [];
+    }
+}
+
+function validateRing(ring: Position[]): Position[] {
+    if (!Array.isArray(ring)) throw new Error('Polygon ring is not a coordinate list.');
+    ring.forEach(c => {
+        if (!Array.isArray(c) || c.length < 2 || !Number.isFinite(c[0]) || !Number.isFinite(c[1])) {
+            throw new Error('Polygon contains an invalid coordinate.');
+        }
+        if (Math.abs(c[0]) > 180 || Math.abs(c[1]) > 90) {
+            throw new Error(`Coordinate [${c[0]}, ${c[1]}] is out of range. Coordinates must be WGS84 longitude/latitude.`);
+        }
+    });
+
+    const closed = ring.map(c => [c[0], c[1]]);
+    const first = closed[0];
+    const last = closed[closed.length - 1];
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+        closed.push([first[0], first[1]]);
+    }
+    if (closed.length < 4) throw new Error('Polygon ring needs at least 3 distinct points.');
+    return closed;
+}
+
+/**
+ * Polygons in the geometry list. GPX has no polygons, so with `closeLines`
+ * every track/route becomes a polygon by joining its last point to its first.
+ */
+function toPolygons(geometries: Geometry[], closeLines: boolean): Position[][][] {
+    const polys: Position[][][] = [];
+    geometries.forEach(g => {
+        if (g.type === 'Polygon') {
+            polys.push(g.coordinates.map(validateRing));
+        } else if (g.type === 'MultiPolygon') {
+            g.coordinates.forEach(p => polys.push(p.map(validateRing)));
+        } else if (closeLines && g.type === 'LineString') {
+            polys.push([validateRing(g.coordinates)]);
+        } else if (closeLines && g.type === 'MultiLineString') {
+            g.coordinates.forEach(line => polys.push([validateRing(line)]));
+        }
+    });
+    return polys;
+}
+
+/**
+ * Parses an uploaded or pasted boundary. All polygon features are merged into
+ * one MultiPolygon (or a Polygon when there is only one). Throws an Error
+ * with a user-facing message for anything that can't be used as a boundary.
+ */
+export function parseBoundaryFile(text: string, filename?: string): Feature<Polygon | MultiPolygon> {
+    if (!text.trim()) throw new Error('File is empty.');
+
+    const format = detectBoundaryFormat(text, filename);
+    let geometries: Geometry[];
+
+    if (format === 'geojson') {
+        let json: unknown;
+        try {
+            json = JSON.parse(text);
+        } catch {
+            throw new Error('File is not valid JSON.');
+        }
+        geometries = collectGeometries(json);
+    } else if (format === 'kml') {
+        geometries = collectGeometries(kmlToGeoJSON(parseXml(text)));
+    } else if (format === 'gpx') {
+        geometries = collectGeometries(gpxToGeoJSON(parseXml(text)));
+    } else {
+        const parsed = parseWKT(text.trim());
+        if (!parsed) throw new Error('Could not parse WKT. Expected e.g. POLYGON((lng lat, ...)).');
+        geometries = collectGeometries(parsed);
+    }
+
+    const polys = toPolygons(geometries, format === 'gpx');
+    if (polys.length === 0) {
+        throw new Error(`No polygon found in ${FORMAT_LABELS[format]} input.`);
+    }
+
+    return polys.length === 1
+        ? polygon(polys[0]) as Feature<Polygon>
+        : multiPolygon(polys) as Feature<MultiPolygon>;
+}
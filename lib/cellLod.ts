@@ -0,0 +1,241 @@
+// Level of detail for drawing grid cells. Zoomed out, cells smaller than a few
+// screen pixels are merged into blocks of 2^n × 2^n cells, so a 10 m grid over
+// a whole neighbourhood draws a few thousand shapes instead of hundreds of
+// thousands. Used by both map backends (components/mapRenderer).
+
+type LatLng = { lat: number, lng: number };
+
+export interface LodCell {
+    path: LatLng[];
+    color: string;
+    tooltip: string;
+    value: number; // the number the colour encodes; NaN when there is none
+}
+
+export interface LatLngBounds {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+// What gets drawn at one zoom level
+export interface LodShape {
+    path: LatLng[];
+    bounds: LatLngBounds;
+    color: string;
+    tooltip: string;
+    cellIndex: number | null; // index of the original cell; null for a merged block
+}
+
+export interface CellLod {
+    cells: LodCell[];
+    cellSizeMeters: number; // typical cell side
+    origin: LatLng; // south-west corner of all cells, origin of the block grid
+    centers: [number, number][]; // cell centres, meters east/north of origin
+    areas: number[]; // approximate cell areas, m²
+    levels: Map<number, LodShape[]>; // by block factor (cells per block side)
+}
+
+// Cells drawn smaller than this are merged...
+const MIN_CELL_PIXELS = 8;
+// ...into blocks at least this big on screen. With only the shapes in view
+// drawn, a full screen holds about (width × height) / MIN_CELL_PIXELS² shapes.
+const MIN_BLOCK_PIXELS = 16;
+// Shapes this far beyond the view (as a share of its size) are drawn too, so short pans don't redraw
+const VIEW_PADDING = 0.25;
+
+const METERS_PER_DEGREE = 111320;
+
+// Web Mercator ground resolution (256 px tiles), shared by Google Maps and Leaflet
+export function metersPerPixel(zoom: number, latitude: number): number {
+    return 156543.03392 * Math.cos(latitude * Math.PI / 180) / Math.pow(2, zoom);
+}
+
+function pathBounds(path: LatLng[]): LatLngBounds {
+    const bounds = { south: Infinity, west: Infinity, north: -Infinity, east: -Infinity };
+    path.forEach(p => {
+        bounds.south = Math.min(bounds.south, p.lat);
+        bounds.north = Math.max(bounds.north, p.lat);
+        bounds.west = Math.min(bounds.west, p.lng);
+        bounds.east = Math.max(bounds.east, p.lng);
+    });
+    return bounds;
+}
+
+function buildCellLod(cells: LodCell[]): CellLod {
+    let minLat = Infinity;
+    let minLng = Infinity;
+    cells.forEach(cell => cell.path.forEach(p => {
+        if (p.lat < minLat) minLat = p.lat;
+        if (p.lng < minLng) minLng = p.lng;
+    }));
+    const origin = { lat: Number.isFinite(minLat) ? minLat : 0, lng: Number.isFinite(minLng) ? minLng : 0 };
+    const kx = METERS_PER_DEGREE * Math.cos(origin.lat * Math.PI / 180);
+
+    const centers: [number, number][] = [];
+    const areas: number[] = [];
+    cells.forEach(cell => {
+        const pts = cell.path.map(p => [(p.lng - origin.lng) * kx, (p.lat - origin.lat) * METERS_PER_DEGREE]);
+        let cx = 0;
+        let cy = 0;
+        let area = 0;
+        pts.forEach(([x, y], i) => {
+            const [nx, ny] = pts[(i + 1) % pts.length];
+            area += x * ny - nx * y;
+            cx += x;
+            cy += y;
+        });
+        centers.push(pts.length ? [cx / pts.length, cy / pts.length] : [0, 0]);
+        areas.push(Math.abs(area) / 2);
+    });
+
+    // Median rather than mean: cells clipped at the boundary are smaller
+    const sorted = [...areas].sort((a, b) => a - b);
+    const cellSizeMeters = Math.sqrt(sorted[Math.floor(sorted.length / 2)] || 1) || 1;
+
+    return { cells, cellSizeMeters, origin, centers, areas, levels: new Map() };
+}
+
+const cache = new WeakMap<LodCell[], CellLod>();
+
+/** The level-of-detail data for this exact cells array, built on first use. */
+export function getCellLod(cells: LodCell[]): CellLod {
+    let lod = cache.get(cells);
+    if (!lod) {
+        lod = buildCellLod(cells);
+        cache.set(cells, lod);
+    }
+    return lod;
+}
+
+/** Cells per block side at this zoom: 1 (draw every cell) or a power of two. */
+export function blockFactor(lod: CellLod, zoom: number): number {
+    const mpp = metersPerPixel(zoom, lod.origin.lat);
+    if (lod.cellSizeMeters / mpp >= MIN_CELL_PIXELS) return 1;
+    return Math.pow(2, Math.max(1, Math.ceil(Math.log2((MIN_BLOCK_PIXELS * mpp) / lod.cellSizeMeters))));
+}
+
+/**
+ * Shapes to draw with `factor` cells per block side. A block covers its
+ * cells' extent (so blocks along the boundary don't spill past it), takes
+ * their area-weighted mean value and the colour of the member closest to
+ * that mean, which keeps the colour scale without knowing it.
+ */
+export function lodShapes(lod: CellLod, factor: number): LodShape[] {
+    const cached = lod.levels.get(factor);
+    if (cached) return cached;
+    if (factor <= 1) {
+        const shapes = lod.cells.map((cell, i) => ({ path: cell.path, bounds: pathBounds(cell.path), color: cell.color, tooltip: cell.tooltip, cellIndex: i }));
+        lod.levels.set(factor, shapes);
+        return shapes;
+    }
+
+    const blockMeters = lod.cellSizeMeters * factor;
+    const blocks = new Map<string, number[]>();
+    lod.centers.forEach(([x, y], i) => {
+        const key = `${Math.floor(x / blockMeters)},${Math.floor(y / blockMeters)}`;
+        const members = blocks.get(key);
+        if (members) members.push(i);
+        else blocks.set(key, [i]);
+    });
+
+    const kx = METERS_PER_DEGREE * Math.cos(lod.origin.lat * Math.PI / 180);
+    const shapes: LodShape[] = [];
+    blocks.forEach((members, key) => {
+        const [bx, by] = key.split(',').map(Number);
+        // Block bounds in degrees, shrunk to the members' extent
+        let south = Infinity, west = Infinity, north = -Infinity, east = -Infinity;
+        let weighted = 0;
+        let weight = 0;
+        members.forEach(i => {
+            lod.cells[i].path.forEach(p => {
+                south = Math.min(south, p.lat);
+                north = Math.max(north, p.lat);
+                west = Math.min(west, p.lng);
+                east = Math.max(east, p.lng);
+            });
+            const v = lod.cells[i].value;
+            if (Number.isFinite(v)) {
+                weighted += v * lod.areas[i];
+                weight += lod.areas[i];
+            }
+        });
+        south = Math.max(south, lod.origin.lat + (by * blockMeters) / METERS_PER_DEGREE);
+        north = Math.min(north, lod.origin.lat + ((by + 1) * blockMeters) / METERS_PER_DEGREE);
+        west = Math.max(west, lod.origin.lng + (bx * blockMeters) / kx);
+        east = Math.min(east, lod.origin.lng + ((bx + 1) * blockMeters) / kx);
+
+        const mean = weight > 0 ? weighted / weight : NaN;
+        let representative = members[0];
+        let closest = Infinity;
+        members.forEach(i => {
+            const gap = Math.abs(lod.cells[i].value - mean); // NaN never wins
+            if (gap < closest) {
+                closest = gap;
+                representative = i;
+            }
+        });
+
+        // Cells without tooltips (the plain grid) get none for their blocks either
+        const tooltip = lod.cells[representative].tooltip
+            ? `${members.length} cells${Number.isFinite(mean) ? `, mean ${mean.toFixed(2)}` : ''}. Zoom in for single cells.`
+            : '';
+        shapes.push({
+            path: [{ lat: south, lng: west }, { lat: south, lng: east }, { lat: north, lng: east }, { lat: north, lng: west }],
+            bounds: { south, west, north, east },
+            color: lod.cells[representative].color,
+            tooltip,
+            cellIndex: null
+        });
+    });
+
+    lod.levels.set(factor, shapes);
+    return shapes;
+}
+
+export interface LodUpdate {
+    shapes: LodShape[]; // every shape at the current level; indices below point into it
+    reset: boolean; // the level changed: clear everything drawn before adding
+    add: number[];
+    remove: number[];
+}
+
+/**
+ * Keeps track of which shapes a map layer has drawn. Call update() whenever the
+ * zoom or view changes and apply the returned difference; only the level for
+ * the zoom and only shapes in (or near) the view are drawn.
+ */
+export function createLodView(lod: CellLod) {
+    let factor = 0;
+    let shapes: LodShape[] = [];
+    const drawn = new Set<number>();
+
+    return {
+        update(zoom: number, view: LatLngBounds): LodUpdate {
+            const nextFactor = blockFactor(lod, zoom);
+            const reset = nextFactor !== factor;
+            if (reset) {
+                factor = nextFactor;
+                shapes = lodShapes(lod, factor);
+                drawn.clear();
+            }
+
+            const padLat = (view.north - view.south) * VIEW_PADDING;
+            const padLng = (view.east - view.west) * VIEW_PADDING;
+            const wanted = new Set<number>();
+            shapes.forEach(({ bounds: b }, i) => {
+                if (b.north >= view.south - padLat && b.south <= view.north + padLat &&
+                    b.east >= view.west - padLng && b.west <= view.east + padLng) {
+                    wanted.add(i);
+                }
+            });
+
+            const remove = [...drawn].filter(i => !wanted.has(i));
+            const add = [...wanted].filter(i => !drawn.has(i));
+            remove.forEach(i => drawn.delete(i));
+            add.forEach(i => drawn.add(i));
+            return { shapes, reset, add, remove };
+        }
+    };
+}
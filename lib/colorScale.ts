@@ -0,0 +1,196 @@
+// Colour schemes and classification for cell values. One ValueScale colours the
+// map, the exported cells and the legend, so the legend can't drift from what
+// is drawn.
+
+import { scaleSequential } from 'd3-scale';
+import {
+    interpolateBlues, interpolateBrBG, interpolateCividis, interpolateGreens, interpolateGreys, interpolateInferno,
+    interpolateMagma, interpolatePiYG, interpolatePlasma, interpolatePuOr, interpolateRdBu, interpolateRdYlBu,
+    interpolateRdYlGn, interpolateSpectral, interpolateTurbo, interpolateViridis, interpolateYlGnBu, interpolateYlOrRd
+} from 'd3-scale-chromatic';
+import type { CellValue } from './geo';
+
+export type ColorSchemeId =
+    | 'RdYlBu' | 'RdBu' | 'PuOr' | 'BrBG' | 'PiYG' | 'Spectral' | 'RdYlGn'
+    | 'viridis' | 'cividis' | 'plasma' | 'magma' | 'inferno' | 'turbo'
+    | 'YlOrRd' | 'YlGnBu' | 'Blues' | 'Greens' | 'Greys';
+
+// d3-scale-chromatic interpolators; colorBlindSafe as rated by ColorBrewer / the matplotlib colormaps
+export const COLOR_SCHEMES: Record<ColorSchemeId, { label: string; interpolator: (t: number) => string; colorBlindSafe: boolean }> = {
+    RdYlBu: { label: 'Red-Yellow-Blue', interpolator: interpolateRdYlBu, colorBlindSafe: true },
+    RdBu: { label: 'Red-Blue', interpolator: interpolateRdBu, colorBlindSafe: true },
+    PuOr: { label: 'Purple-Orange', interpolator: interpolatePuOr, colorBlindSafe: true },
+    BrBG: { label: 'Brown-Teal', interpolator: interpolateBrBG, colorBlindSafe: true },
+    PiYG: { label: 'Pink-Green', interpolator: interpolatePiYG, colorBlindSafe: true },
+    Spectral: { label: 'Spectral', interpolator: interpolateSpectral, colorBlindSafe: false },
+    RdYlGn: { label: 'Red-Yellow-Green', interpolator: interpolateRdYlGn, colorBlindSafe: false },
+    viridis: { label: 'Viridis', interpolator: interpolateViridis, colorBlindSafe: true },
+    cividis: { label: 'Cividis', interpolator: interpolateCividis, colorBlindSafe: true },
+    plasma: { label: 'Plasma', interpolator: interpolatePlasma, colorBlindSafe: true },
+    magma: { label: 'Magma', interpolator: interpolateMagma, colorBlindSafe: true },
+    inferno: { label: 'Inferno', interpolator: interpolateInferno, colorBlindSafe: true },
+    turbo: { label: 'Turbo', interpolator: interpolateTurbo, colorBlindSafe: false },
+    YlOrRd: { label: 'Yellow-Orange-Red', interpolator: interpolateYlOrRd, colorBlindSafe: true },
+    YlGnBu: { label: 'Yellow-Green-Blue', interpolator: interpolateYlGnBu, colorBlindSafe: true },
+    Blues: { label: 'Blues', interpolator: interpolateBlues, colorBlindSafe: true },
+    Greens: { label: 'Greens', interpolator: interpolateGreens, colorBlindSafe: true },
+    Greys: { label: 'Greys', interpolator: interpolateGreys, colorBlindSafe: true }
+};
+
+export type ClassificationMethod = 'continuous' | 'equalInterval' | 'quantile' | 'jenks';
+
+export const CLASSIFICATION_METHODS: Record<ClassificationMethod, { label: string }> = {
+    continuous: { label: 'Continuous' },
+    equalInterval: { label: 'Equal interval' },
+    quantile: { label: 'Quantile' },
+    jenks: { label: 'Natural breaks (Jenks)' }
+};
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 10;
+
+export interface ColorSettings {
+    scheme: ColorSchemeId;
+    reverse: boolean; // without it, the lowest value gets the scheme's first colour
+    method: ClassificationMethod;
+    classes: number; // ignored when continuous
+}
+
+// Reversed Red-Yellow-Blue: high values red, low values blue
+export const DEFAULT_COLOR_SETTINGS: ColorSettings = {
+    scheme: 'RdYlBu',
+    reverse: true,
+    method: 'continuous',
+    classes: 5
+};
+
+// Cells without a finite value
+export const NO_VALUE_COLOR = '#9e9e9e';
+
+export interface ValueClass {
+    from: number;
+    to: number; // the last class includes its upper bound
+    color: string;
+    count: number; // values that fall in this class
+}
+
+export interface ValueScale {
+    settings: ColorSettings;
+    domain: [number, number]; // low to high
+    classes: ValueClass[]; // empty when continuous
+    color(value: number): string;
+}
+
+// Jenks on more values than this runs on an evenly spaced sample of the sorted values
+const JENKS_SAMPLE_SIZE = 1000;
+
+function quantileSorted(sorted: number[], p: number): number {
+    const i = (sorted.length - 1) * p;
+    const lo = Math.floor(i);
+    const hi = Math.ceil(i);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (i - lo);
+}
+
+/**
+ * Fisher-Jenks natural breaks: the class boundaries that minimise the summed
+ * squared deviation within classes. Returns the lowest value of every class
+ * after the first.
+ */
+function jenksThresholds(sorted: number[], classes: number): number[] {
+    const data = sorted.length > JENKS_SAMPLE_SIZE
+        ? Array.from({ length: JENKS_SAMPLE_SIZE }, (_, i) => sorted[Math.round(i * (sorted.length - 1) / (JENKS_SAMPLE_SIZE - 1))])
+        : sorted;
+    const m = data.length;
+    const n = Math.min(classes, m);
+    // lower[l][j]: 1-based index of the first value in class j when the first l values form j classes
+    const lower = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+    const cost = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(Infinity));
+    for (let j = 1; j <= n; j++) {
+        lower[1][j] = 1;
+        cost[1][j] = 0;
+    }
+
+    for (let l = 2; l <= m; l++) {
+        let sum = 0;
+        let sumSq = 0;
+        let deviation = 0;
+        for (let k = 1; k <= l; k++) {
+            const first = l - k + 1; // the last class is values first..l
+            const v = data[first - 1];
+            sum += v;
+            sumSq += v * v;
+            deviation = sumSq - (sum * sum) / k;
+            if (first > 1) {
+                for (let j = 2; j <= n; j++) {
+                    if (cost[l][j] >= deviation + cost[first - 1][j - 1]) {
+                        lower[l][j] = first;
+                        cost[l][j] = deviation + cost[first - 1][j - 1];
+                    }
+                }
+            }
+        }
+        lower[l][1] = 1;
+        cost[l][1] = deviation;
+    }
+
+    const thresholds: number[] = [];
+    let k = m;
+    for (let j = n; j >= 2; j--) {
+        thresholds.unshift(data[lower[k][j] - 1]);
+        k = lower[k][j] - 1;
+    }
+    return thresholds;
+}
+
+/**
+ * The colour scale for these values. Continuous and equal-interval scales
+ * span 0-1 (values are normalised), widened if a value falls outside it;
+ * quantile and Jenks classes span the values themselves.
+ */
+export function createValueScale(values: number[], settings: ColorSettings): ValueScale {
+    const { interpolator } = COLOR_SCHEMES[settings.scheme] ?? COLOR_SCHEMES[DEFAULT_COLOR_SETTINGS.scheme];
+    const ramp = (t: number) => interpolator(settings.reverse ? 1 - t : t);
+    const sorted = values.filter(Number.isFinite).sort((a, b) => a - b);
+    const min = sorted.length ? sorted[0] : 0;
+    const max = sorted.length ? sorted[sorted.length - 1] : 1;
+
+    if (settings.method === 'continuous') {
+        const domain: [number, number] = [Math.min(0, min), Math.max(1, max)];
+        const scale = scaleSequential(ramp).domain(domain).clamp(true);
+        return { settings, domain, classes: [], color: v => (Number.isFinite(v) ? scale(v) : NO_VALUE_COLOR) };
+    }
+
+    const count = Math.min(Math.max(Math.round(settings.classes) || DEFAULT_COLOR_SETTINGS.classes, MIN_CLASSES), MAX_CLASSES);
+    let domain: [number, number] = [min, max];
+    let thresholds: number[];
+    if (settings.method === 'equalInterval') {
+        domain = [Math.min(0, min), Math.max(1, max)];
+        thresholds = Array.from({ length: count - 1 }, (_, i) => domain[0] + (domain[1] - domain[0]) * (i + 1) / count);
+    } else if (settings.method === 'quantile') {
+        thresholds = sorted.length ? Array.from({ length: count - 1 }, (_, i) => quantileSorted(sorted, (i + 1) / count)) : [];
+    } else {
+        thresholds = sorted.length ? jenksThresholds(sorted, count) : [];
+    }
+    // Repeated values can make quantile breaks coincide; those classes would be empty
+    thresholds = thresholds.filter((t, i) => t > domain[0] && t < domain[1] && t !== thresholds[i - 1]);
+
+    const bounds = [domain[0], ...thresholds, domain[1]];
+    const colors = thresholds.length
+        ? bounds.slice(1).map((_, i) => ramp(i / thresholds.length))
+        : [ramp(0.5)];
+    const classOf = (v: number) => {
+        let i = 0;
+        while (i < thresholds.length && v >= thresholds[i]) i++;
+        return i;
+    };
+
+    const classes: ValueClass[] = colors.map((color, i) => ({ from: bounds[i], to: bounds[i + 1], color, count: 0 }));
+    sorted.forEach(v => classes[classOf(v)].count++);
+
+    return { settings, domain, classes, color: v => (Number.isFinite(v) ? colors[classOf(v)] : NO_VALUE_COLOR) };
+}
+
+/** Copies of the cells with `color` set from the scale. */
+export function colorCells(cells: CellValue[], scale: ValueScale): CellValue[] {
+    return cells.map(cell => ({ ...cell, color: scale.color(cell.value) }));
+}
@@ -0,0 +1,198 @@
+import turfArea from '@turf/area';
+import turfBbox from '@turf/bbox';
+import turfCentroid from '@turf/centroid';
+import turfIntersect from '@turf/intersect';
+import turfIsobands from '@turf/isobands';
+import turfPointGrid from '@turf/point-grid';
+import { featureCollection } from '@turf/helpers';
+import { BBox, Feature, MultiPolygon, Polygon, Position } from 'geojson';
+import { CellValue } from './geo';
+import { ValueScale } from './colorScale';
+
+// Contour bands: the valued grid turned into smooth polygons such as "value
+// 0.6-0.8" or "within 250 m of the road", clipped to the boundary. Cell values
+// are interpolated onto a regular point grid and banded with marching squares
+// (@turf/isobands), so band edges don't follow the cell outlines.
+
+export type ContourField = 'value' | 'distance';
+
+export const CONTOUR_FIELDS: Record<ContourField, { label: string; unit: string; defaultBreaks: number[] }> = {
+    value: { label: 'Value', unit: '', defaultBreaks: [0.2, 0.4, 0.6, 0.8] },
+    distance: { label: 'Distance to road', unit: 'm', defaultBreaks: [100, 250, 500] }
+};
+
+export interface ContourBand {
+    field: ContourField;
+    from: number; // -Infinity for the lowest band
+    to: number; // Infinity for the highest; a band includes `from` but not `to`
+    label: string; // e.g. "0.60-0.80", "≥ 0.80", "< 100 m"
+    feature: Feature<Polygon | MultiPolygon> | null; // clipped to the boundary; null when the band is empty
+    areaSqM: number;
+    meanValue: number; // area-weighted mean cell value in the band, NaN when no cell falls in it
+    color: string; // meanValue on the value scale
+}
+
+// Interpolation grids beyond this many points are made coarser
+const MAX_SAMPLES = 100000;
+
+function formatBreak(field: ContourField, v: number): string {
+    return field === 'distance' ? `${Math.round(v)} m` : v.toFixed(2);
+}
+
+function bandLabel(field: ContourField, from: number, to: number): string {
+    if (!Number.isFinite(from)) return `< ${formatBreak(field, to)}`;
+    if (!Number.isFinite(to)) return `≥ ${formatBreak(field, from)}`;
+    return field === 'distance'
+        ? `${Math.round(from)}-${formatBreak(field, to)}`
+        : `${formatBreak(field, from)}-${formatBreak(field, to)}`;
+}
+
+/**
+ * Value at any point from the cell centroids: inverse-distance weighted over
+ * the centroids within `radius`, or the nearest centroid's value further out
+ * (e.g. outside the boundary, where the grid has no cells).
+ */
+function createSampler(centers: Position[], values: number[], radius: number) {
+    const originLat = centers[0][1];
+    const kx = 111320 * Math.cos(originLat * Math.PI / 180);
+    const toXY = ([lng, lat]: Position) => [lng * kx, lat * 111320];
+
+    const buckets = new Map<string, number[]>();
+    const xy = centers.map(toXY);
+    let minBx = Infinity, maxBx = -Infinity, minBy = Infinity, maxBy = -Infinity;
+    xy.forEach(([x, y], i) => {
+        const bx = Math.floor(x / radius);
+        const by = Math.floor(y / radius);
+        minBx = Math.min(minBx, bx);
+        maxBx = Math.max(maxBx, bx);
+        minBy = Math.min(minBy, by);
+        maxBy = Math.max(maxBy, by);
+        const key = `${bx},${by}`;
+        const bucket = buckets.get(key);
+        if (bucket) bucket.push(i);
+        else buckets.set(key, [i]);
+    });
+
+    return (p: Position): number => {
+        const [x, y] = toXY(p);
+        const bx = Math.floor(x / radius);
+        const by = Math.floor(y / radius);
+        let weighted = 0;
+        let weight = 0;
+        let nearest = -1;
+        let nearestDist = Infinity;
+        const visit = (i: number) => {
+            const d = Math.hypot(xy[i][0] - x, xy[i][1] - y);
+            if (d < nearestDist) {
+                nearestDist = d;
+                nearest = i;
+            }
+            if (d < radius) {
+                const w = 1 / Math.max(d * d, 1e-6);
+                weighted += w * values[i];
+                weight += w;
+            }
+        };
+
+        // Rings of buckets around the point until nothing closer can be left
+        const maxRing = Math.max(Math.abs(bx - minBx), Math.abs(bx - maxBx), Math.abs(by - minBy), Math.abs(by - maxBy));
+        for (let r = 0; r <= maxRing; r++) {
+            for (let dx = -r; dx <= r; dx++) {
+                for (let dy = -r; dy <= r; dy++) {
+                    if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+                    buckets.get(`${bx + dx},${by + dy}`)?.forEach(visit);
+                }
+            }
+            if (r >= 1 && (weight > 0 || nearestDist <= r * radius)) break;
+        }
+        return weight > 0 ? weighted / weight : values[nearest];
+    };
+}
+
+/**
+ * Bands of `field` split at `breaks` (one more band than breaks), with the
+ * area of each within the boundary. Unreachable cells (infinite travel
+ * distance) count as beyond every distance break.
+ */
+export function contourBands(
+    cells: CellValue[],
+    boundary: Feature<Polygon | MultiPolygon>,
+    field: ContourField,
+    breaks: number[],
+    scale: ValueScale
+): ContourBand[] {
+    if (cells.length === 0) return [];
+    const thresholds = [...new Set(breaks.filter(Number.isFinite))].sort((a, b) => a - b);
+
+    const raw = cells.map(cell => cell[field]);
+    let min = Infinity;
+    let max = -Infinity;
+    raw.forEach(v => {
+        if (!Number.isFinite(v)) return;
+        min = Math.min(min, v);
+        max = Math.max(max, v);
+    });
+    if (!Number.isFinite(min)) return [];
+    const beyond = max + Math.max(max - min, 1);
+    const values = raw.map(v => (Number.isFinite(v) ? v : beyond));
+
+    // Sample spacing: half a cell, coarser if that would be too many points
+    const areas = cells.map(cell => cell.areaSqM ?? turfArea(cell.feature));
+    const sortedAreas = [...areas].sort((a, b) => a - b);
+    const cellSide = Math.sqrt(sortedAreas[Math.floor(sortedAreas.length / 2)]) || 1;
+    const [west, south, east, north] = turfBbox(boundary);
+    const kx = 111320 * Math.cos(((south + north) / 2) * Math.PI / 180);
+    const widthMeters = (east - west) * kx;
+    const heightMeters = (north - south) * 111320;
+    const spacing = Math.max(cellSide / 2, Math.sqrt((widthMeters * heightMeters) / MAX_SAMPLES));
+
+    // One spacing of padding so bands close around the boundary rather than at the grid edge
+    const padLat = spacing / 111320;
+    const padLng = spacing / kx;
+    const bbox: BBox = [west - padLng, south - padLat, east + padLng, north + padLat];
+    const sample = createSampler(cells.map(cell => turfCentroid(cell.feature).geometry.coordinates), values, cellSide * 1.5);
+    const grid = turfPointGrid(bbox, spacing, { units: 'meters' });
+    grid.features.forEach(f => {
+        f.properties = { z: sample(f.geometry.coordinates) };
+    });
+
+    // Marching squares needs increasing breaks that cover every sampled value
+    const low = min - 1;
+    const high = beyond + 1;
+    const edges = [low, ...thresholds.map(t => Math.min(Math.max(t, low), high)), high];
+    const distinct = edges.filter((e, i) => i === 0 || e > edges[i - 1]);
+    const isobands = distinct.length > 1 && grid.features.length >= 4
+        ? turfIsobands(grid, distinct, { zProperty: 'z' }).features
+        : [];
+
+    const bounds = [-Infinity, ...thresholds, Infinity];
+    return bounds.slice(1).map((to, i) => {
+        const from = bounds[i];
+        const lower = edges[i];
+        const upper = edges[i + 1];
+        const band = upper > lower ? isobands[distinct.indexOf(lower)] : undefined;
+        const clipped = band && band.geometry.coordinates.length > 0
+            ? turfIntersect(featureCollection<Polygon | MultiPolygon>([band, boundary]))
+            : null;
+
+        let weighted = 0;
+        let weight = 0;
+        values.forEach((v, c) => {
+            if (v >= from && v < to) {
+                weighted += cells[c].value * areas[c];
+                weight += areas[c];
+            }
+        });
+
+        return {
+            field,
+            from,
+            to,
+            label: bandLabel(field, from, to),
+            feature: clipped,
+            areaSqM: clipped ? turfArea(clipped) : 0,
+            meanValue: weight > 0 ? weighted / weight : NaN,
+            color: scale.color(weight > 0 ? weighted / weight : NaN)
+        };
+    });
+}
@@ -0,0 +1,200 @@
+// Distance-decay curves: how much of a road's value is left at a given distance.
+// Every curve maps distance (meters) to 0-1, with 1 at the road. Shared by the
+// valuation functions in lib/geo and the curve editor in the sidebar.
+
+export interface CurvePoint {
+    distance: number; // meters
+    value: number;    // 0-1
+}
+
+export type DecayCurve =
+    | { type: 'linear' }                                         // 1 - d / maxDistance
+    | { type: 'exponential'; k: number }                         // exp(-k d)
+    | { type: 'gaussian'; sigma: number }                        // exp(-d² / 2σ²)
+    | { type: 'inverse_power'; scale: number; power: number }    // 1 / (1 + (d / scale)^power)
+    | { type: 'logistic'; midpoint: number; steepness: number }  // S-curve, half value at midpoint
+    | { type: 'bands'; bands: CurvePoint[] }                     // constant value up to each band's distance
+    | { type: 'piecewise'; points: CurvePoint[] };               // straight lines between points
+
+export type DecayCurveType = DecayCurve['type'];
+
+interface DecayDefinition<T extends DecayCurveType> {
+    label: string;
+    defaults: Extract<DecayCurve, { type: T }>;
+    // maxDistance is the farthest cell's distance; only curves relative to the plot use it
+    evaluate(curve: Extract<DecayCurve, { type: T }>, distance: number, maxDistance: number): number;
+    previewRange(curve: Extract<DecayCurve, { type: T }>): number; // meters shown in the preview plot
+}
+
+const logistic = (d: number, midpoint: number, steepness: number) =>
+    1 / (1 + Math.exp((d - midpoint) / Math.max(steepness, 1e-6)));
+
+const sortedPoints = (points: CurvePoint[]) =>
+    points.filter(p => Number.isFinite(p.distance) && Number.isFinite(p.value))
+        .sort((a, b) => a.distance - b.distance);
+
+const lastDistance = (points: CurvePoint[], fallback: number) =>
+    points.length ? Math.max(...points.map(p => p.distance)) : fallback;
+
+export const DECAY_FUNCTIONS: { [T in DecayCurveType]: DecayDefinition<T> } = {
+    linear: {
+        label: 'Linear',
+        defaults: { type: 'linear' },
+        evaluate: (_, d, maxDistance) => 1 - d / maxDistance,
+        previewRange: () => 500
+    },
+    exponential: {
+        label: 'Exponential',
+        defaults: { type: 'exponential', k: 0.005 },
+        evaluate: (c, d) => Math.exp(-c.k * d),
+        previewRange: c => 3 / Math.max(c.k, 1e-6)
+    },
+    gaussian: {
+        label: 'Gaussian',
+        defaults: { type: 'gaussian', sigma: 150 },
+        evaluate: (c, d) => Math.exp(-(d * d) / (2 * c.sigma * c.sigma)),
+        previewRange: c => 3 * c.sigma
+    },
+    inverse_power: {
+        label: 'Inverse Power',
+        defaults: { type: 'inverse_power', scale: 100, power: 2 },
+        evaluate: (c, d) => 1 / (1 + Math.pow(d / Math.max(c.scale, 1e-6), c.power)),
+        previewRange: c => 5 * c.scale
+    },
+    logistic: {
+        label: 'Logistic',
+        defaults: { type: 'logistic', midpoint: 200, steepness: 40 },
+        // Rescaled so the curve starts at exactly 1 at the road
+        evaluate: (c, d) => logistic(d, c.midpoint, c.steepness) / logistic(0, c.midpoint, c.steepness),
+        previewRange: c => c.midpoint + 5 * c.steepness
+    },
+    bands: {
+        label: 'Distance Bands',
+        defaults: {
+            type: 'bands',
+            bands: [
+                { distance: 50, value: 1.0 },
+                { distance: 200, value: 0.7 },
+                { distance: 500, value: 0.4 }
+            ]
+        },
+        // Beyond the last band the value is 0
+        evaluate: (c, d) => sortedPoints(c.bands).find(b => d <= b.distance)?.value ?? 0,
+        previewRange: c => 1.25 * lastDistance(c.bands, 500)
+    },
+    piecewise: {
+        label: 'Custom (piecewise linear)',
+        defaults: {
+            type: 'piecewise',
+            points: [
+                { distance: 0, value: 1.0 },
+                { distance: 100, value: 0.8 },
+                { distance: 300, value: 0.3 },
+                { distance: 600, value: 0 }
+            ]
+        },
+        // Flat before the first point and after the last one
+        evaluate: (c, d) => {
+            const pts = sortedPoints(c.points);
+            if (pts.length === 0) return 0;
+            if (d <= pts[0].distance) return pts[0].value;
+            for (let i = 1; i < pts.length; i++) {
+                const a = pts[i - 1];
+                const b = pts[i];
+                if (d <= b.distance) {
+                    const span = b.distance - a.distance;
+                    return span > 0 ? a.value + (b.value - a.value) * (d - a.distance) / span : b.value;
+                }
+            }
+            return pts[pts.length - 1].value;
+        },
+        previewRange: c => 1.25 * lastDistance(c.points, 500)
+    }
+};
+
+export const DECAY_CURVE_TYPES = Object.keys(DECAY_FUNCTIONS) as DecayCurveType[];
+
+// Dispatch on the curve type; the cast is safe because each entry only ever sees its own type
+function definitionFor(curve: DecayCurve): DecayDefinition<DecayCurveType> {
+    return DECAY_FUNCTIONS[curve.type] as unknown as DecayDefinition<DecayCurveType>;
+}
+
+/** Value (clamped to 0-1) at `distance` meters. Unreachable (Infinity) is always 0. */
+export function evaluateDecay(curve: DecayCurve, distance: number, maxDistance: number): number {
+    if (!Number.isFinite(distance)) return 0;
+    const v = definitionFor(curve).evaluate(curve, Math.max(0, distance), Math.max(maxDistance, 1));
+    return Number.isFinite(v) ? Math.min(1, Math.max(0, v)) : 0;
+}
+
+/**
+ * Largest value the curve takes at `distance` or anywhere beyond it. Lets the
+ * multi-road valuation stop looking once no farther road could win.
+ */
+export function decayUpperBound(curve: DecayCurve, distance: number, maxDistance: number): number {
+    const beyond = (points: CurvePoint[]) => sortedPoints(points).filter(p => p.distance > distance).map(p => p.value);
+    switch (curve.type) {
+        case 'bands':
+            return Math.min(1, Math.max(0, evaluateDecay(curve, distance, maxDistance), ...beyond(curve.bands)));
+        case 'piecewise':
+            return Math.min(1, Math.max(0, evaluateDecay(curve, distance, maxDistance), ...beyond(curve.points)));
+        case 'exponential':
+            return curve.k >= 0 ? evaluateDecay(curve, distance, maxDistance) : 1;
+        case 'inverse_power':
+            return curve.power >= 0 ? evaluateDecay(curve, distance, maxDistance) : 1;
+        default:
+            // linear, gaussian and logistic never rise with distance
+            return evaluateDecay(curve, distance, maxDistance);
+    }
+}
+
+export function defaultDecayCurve(type: DecayCurveType): DecayCurve {
+    // Copy so editing a table never mutates the defaults
+    return JSON.parse(JSON.stringify(DECAY_FUNCTIONS[type].defaults));
+}
+
+const isCurvePoint = (p: unknown): p is CurvePoint =>
+    !!p && typeof p === 'object' &&
+    Number.isFinite((p as CurvePoint).distance) && Number.isFinite((p as CurvePoint).value);
+
+/**
+ * A curve from untrusted input (project file, API request). Every field of
+ * the curve's type must be present and usable (finite numbers, a non-empty
+ * list of points); otherwise that type's defaults are used. Unknown types
+ * give `fallback`.
+ */
+export function parseDecayCurve(raw: unknown, fallback: DecayCurve): DecayCurve {
+    if (!raw || typeof raw !== 'object') return fallback;
+    const type = (raw as { type?: unknown }).type;
+    if (!DECAY_CURVE_TYPES.includes(type as DecayCurveType)) return fallback;
+
+    const defaults = defaultDecayCurve(type as DecayCurveType) as unknown as Record<string, unknown>;
+    const fields = raw as Record<string, unknown>;
+    const valid = Object.entries(defaults).every(([key, value]) => {
+        if (key === 'type') return true;
+        if (Array.isArray(value)) {
+            const list = fields[key];
+            return Array.isArray(list) && list.length > 0 && list.every(isCurvePoint);
+        }
+        return Number.isFinite(fields[key]);
+    });
+    if (!valid) return defaults as unknown as DecayCurve;
+
+    // Only the fields the type defines, with points copied down to distance/value
+    return Object.fromEntries(Object.keys(defaults).map(key => [
+        key,
+        Array.isArray(fields[key])
+            ? (fields[key] as CurvePoint[]).map(({ distance, value }) => ({ distance, value }))
+            : fields[key]
+    ])) as unknown as DecayCurve;
+}
+
+/** [distance, value] samples for plotting the curve over its preview range. */
+export function sampleDecayCurve(curve: DecayCurve, samples: number = 100): { range: number; points: [number, number][] } {
+    const range = Math.max(definitionFor(curve).previewRange(curve), 1);
+    const points: [number, number][] = [];
+    for (let i = 0; i <= samples; i++) {
+        const d = (range * i) / samples;
+        points.push([d, evaluateDecay(curve, d, range)]);
+    }
+    return { range, points };
+}
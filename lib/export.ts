@@ -0,0 +1,260 @@
+import turfArea from '@turf/area';
+import turfCentroid from '@turf/centroid';
+import { lineString } from '@turf/helpers';
+import { write as shpWrite } from '@mapbox/shp-write';
+import JSZip from 'jszip';
+import { Feature, FeatureCollection, Geometry, LineString, MultiPolygon, Polygon, Position } from 'geojson';
+import { CellValue, getRoadLabel } from './geo';
+import { ContourBand } from './contours';
+
+// Everything shown on the map after "Calculate Value Gradient"
+export interface ExportLayers {
+    boundary: Feature<Polygon | MultiPolygon> | null;
+    roads: Feature<LineString>[];
+    connection: Position[] | null; // [boundary point, road point]
+    cells: CellValue[];
+    contours?: ContourBand[]; // set once bands have been generated
+}
+
+type LayerName = 'cells' | 'boundary' | 'roads' | 'connection' | 'contours';
+
+// Flat attribute rows (shapefile DBF columns are limited to 10 characters). Missing
+// numbers are null rather than '', so the DBF column stays numeric whichever row comes first
+function cellProperties(cell: CellValue, index: number, roads: Feature<LineString>[]) {
+    const center = turfCentroid(cell.feature).geometry.coordinates;
+    return {
+        id: index + 1,
+        lat: center[1],
+        lng: center[0],
+        distance_m: Math.round(cell.distance * 100) / 100,
+        value: Math.round(cell.value * 10000) / 10000,
+        area_sqm: Math.round((cell.areaSqM ?? turfArea(cell.feature)) * 100) / 100,
+        price: cell.price !== undefined ? Math.round(cell.price * 100) / 100 : null,
+        color: cell.color,
+        road: cell.roadIndex !== undefined && roads[cell.roadIndex] ? getRoadLabel(roads[cell.roadIndex]) : ''
+    };
+}
+
+// Valued cells as GeoJSON features carrying the same attributes as the CSV/shapefile rows
+export function cellFeatures(cells: CellValue[], roads: Feature<LineString>[]): Feature<Polygon>[] {
+    return cells.map((cell, i) => ({
+        type: 'Feature',
+        geometry: cell.feature.geometry,
+        properties: { layer: 'cell', ...cellProperties(cell, i, roads) }
+    }));
+}
+
+// Non-empty contour bands; open-ended bands leave `from` or `to` null
+export function contourFeatures(bands: ContourBand[]): Feature<Polygon | MultiPolygon>[] {
+    return bands.filter(band => band.feature).map(band => ({
+        type: 'Feature',
+        geometry: band.feature!.geometry,
+        properties: {
+            layer: 'contour',
+            name: band.label,
+            field: band.field,
+            from: Number.isFinite(band.from) ? band.from : null,
+            to: Number.isFinite(band.to) ? band.to : null,
+            area_sqm: Math.round(band.areaSqM * 100) / 100,
+            area_ha: Math.round(band.areaSqM / 100) / 100,
+            mean_value: Number.isFinite(band.meanValue) ? Math.round(band.meanValue * 10000) / 10000 : null,
+            color: band.color
+        }
+    }));
+}
+
+function layerFeatures(layers: ExportLayers): Record<LayerName, Feature<Geometry>[]> {
+    return {
+        cells: cellFeatures(layers.cells, layers.roads),
+        boundary: layers.boundary ? [{
+            type: 'Feature',
+            geometry: layers.boundary.geometry,
+            properties: { layer: 'boundary', area_sqm: Math.round(turfArea(layers.boundary)) }
+        }] : [],
+        roads: layers.roads.map((road, i) => ({
+            type: 'Feature',
+            geometry: road.geometry,
+            properties: {
+                layer: 'road',
+                id: i + 1,
+                name: road.properties?.name || '',
+                ref: road.properties?.ref || '',
+                highway: road.properties?.highway || ''
+            }
+        })),
+        connection: layers.connection && layers.connection.length === 2
+            ? [lineString(layers.connection, { layer: 'connection' })]
+            : [],
+        contours: contourFeatures(layers.contours || [])
+    };
+}
+
+export function toGeoJSON(layers: ExportLayers): string {
+    const byLayer = layerFeatures(layers);
+    const fc: FeatureCollection = {
+        type: 'FeatureCollection',
+        features: [...byLayer.boundary, ...byLayer.roads, ...byLayer.connection, ...byLayer.cells, ...byLayer.contours]
+    };
+    return JSON.stringify(fc);
+}
+
+export function toCSV(layers: ExportLayers): string {
+    const header = ['id', 'centroid_lat', 'centroid_lng', 'distance_m', 'value', 'area_sqm', 'price', 'road'];
+    const escape = (v: string | number | null) => {
+        const str = v === null ? '' : String(v);
+        return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+    };
+    const rows = layers.cells.map((cell, i) => {
+        const p = cellProperties(cell, i, layers.roads);
+        return [p.id, p.lat, p.lng, p.distance_m, p.value, p.area_sqm, p.price, p.road].map(escape).join(',');
+    });
+    return [header.join(','), ...rows].join('\n');
+}
+
+// --- KML ---
+
+const xmlEscape = (s: string) =>
+    s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// d3 colors come back as "rgb(r, g, b)" or "#rrggbb"; KML wants aabbggrr
+function toKmlColor(color: string, alpha: number): string {
+    let rgb: number[] = [];
+    const m = color.match(/rgb\((\d+),\s*(\d+),\s*(\d+)\)/);
+    if (m) {
+        rgb = [Number(m[1]), Number(m[2]), Number(m[3])];
+    } else if (/^#[0-9a-f]{6}$/i.test(color)) {
+        rgb = [1, 3, 5].map(i => parseInt(color.slice(i, i + 2), 16));
+    } else {
+        rgb = [255, 255, 255];
+    }
+    const hex = (n: number) => Math.round(n).toString(16).padStart(2, '0');
+    return hex(alpha * 255) + hex(rgb[2]) + hex(rgb[1]) + hex(rgb[0]);
+}
+
+const kmlCoords = (coords: Position[]) => coords.map(c => `${c[0]},${c[1]}`).join(' ');
+
+function kmlPolygon(rings: Position[][]): string {
+    const [outer, ...holes] = rings;
+    return '<Polygon>' +
+        `<outerBoundaryIs><LinearRing><coordinates>${kmlCoords(outer)}</coordinates></LinearRing></outerBoundaryIs>` +
+        holes.map(h => `<innerBoundaryIs><LinearRing><coordinates>${kmlCoords(h)}</coordinates></LinearRing></innerBoundaryIs>`).join('') +
+        '</Polygon>';
+}
+
+function kmlGeometry(geometry: Geometry): string {
+    switch (geometry.type) {
+        case 'Polygon':
+            return kmlPolygon(geometry.coordinates);
+        case 'MultiPolygon':
+            return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join('')}</MultiGeometry>`;
+        case 'LineString':
+            return `<LineString><coordinates>${kmlCoords(geometry.coordinates)}</coordinates></LineString>`;
+        default:
+            return '';
+    }
+}
+
+function kmlPlacemark(feature: Feature<Geometry>, style: string): string {
+    const props = feature.properties || {};
+    const data = Object.entries(props)
+        .filter(([key]) => key !== 'layer' && key !== 'color')
+        .map(([key, v]) => `<Data name="${xmlEscape(key)}"><value>${xmlEscape(String(v ?? ''))}</value></Data>`)
+        .join('');
+    const name = props.name || props.id || props.layer || '';
+    return `<Placemark><name>${xmlEscape(String(name))}</name>${style}<ExtendedData>${data}</ExtendedData>${kmlGeometry(feature.geometry)}</Placemark>`;
+}
+
+export function toKML(layers: ExportLayers): string {
+    const byLayer = layerFeatures(layers);
+    const folder = (name: string, placemarks: string[]) =>
+        placemarks.length ? `<Folder><name>${name}</name>${placemarks.join('')}</Folder>` : '';
+
+    const body = [
+        folder('Boundary', byLayer.boundary.map(f =>
+            kmlPlacemark(f, `<Style><LineStyle><color>${toKmlColor('#007aff', 0.8)}</color><width>2</width></LineStyle><PolyStyle><color>${toKmlColor('#007aff', 0.3)}</color></PolyStyle></Style>`))),
+        folder('Roads', byLayer.roads.map(f =>
+            kmlPlacemark(f, `<Style><LineStyle><color>${toKmlColor('#FF6F00', 0.8)}</color><width>2</width></LineStyle></Style>`))),
+        folder('Connection', byLayer.connection.map(f =>
+            kmlPlacemark(f, `<Style><LineStyle><color>${toKmlColor('#000000', 0.8)}</color><width>2</width></LineStyle></Style>`))),
+        folder('Cells', byLayer.cells.map(f =>
+            kmlPlacemark(f, `<Style><LineStyle><color>${toKmlColor('#ffffff', 0.3)}</color><width>1</width></LineStyle><PolyStyle><color>${toKmlColor(String(f.properties?.color), 0.6)}</color></PolyStyle></Style>`))),
+        folder('Contour bands', byLayer.contours.map(f =>
+            kmlPlacemark(f, `<Style><LineStyle><color>${toKmlColor('#333333', 0.8)}</color><width>1</width></LineStyle><PolyStyle><color>${toKmlColor(String(f.properties?.color), 0.6)}</color></PolyStyle></Style>`)))
+    ].join('');
+
+    return '<?xml version="1.0" encoding="UTF-8"?>' +
+        '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Land Value Gradient</name>' +
+        body +
+        '</Document></kml>';
+}
+
+// --- Shapefile ---
+
+// Twice the signed area of a ring in lon/lat; negative when it runs clockwise
+function ringSignedArea(ring: Position[]): number {
+    let sum = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    return sum;
+}
+
+/**
+ * The rings of a polygon record: every part's outer ring clockwise and its
+ * holes counter-clockwise, as the shapefile spec requires (GeoJSON winds them
+ * the other way, and readers tell parts from holes only by winding).
+ */
+function shapefileRings(parts: Position[][][]): Position[][] {
+    return parts.flatMap(rings => rings.map((ring, i) => {
+        const clockwise = ringSignedArea(ring) < 0;
+        return clockwise === (i === 0) ? ring : [...ring].reverse();
+    }));
+}
+
+// One .shp/.shx/.dbf/.prj set per layer, all in a single zip
+export async function toShapefileZip(layers: ExportLayers): Promise<Blob> {
+    const byLayer = layerFeatures(layers);
+    const zip = new JSZip();
+
+    (Object.keys(byLayer) as LayerName[]).forEach(name => {
+        const features = byLayer[name];
+        if (features.length === 0) return;
+
+        // The file name already says which layer this is
+        const rows = features.map(f =>
+            Object.fromEntries(Object.entries(f.properties || {}).filter(([key]) => key !== 'layer'))
+        );
+
+        // The shapefile writer takes raw coordinates: a list of rings per polygon record,
+        // a list of parts per polyline record
+        const isLine = features[0].geometry.type === 'LineString';
+        const geometries = features.map(f => {
+            const g = f.geometry;
+            if (g.type === 'LineString') return [g.coordinates];
+            if (g.type === 'MultiPolygon') return shapefileRings(g.coordinates);
+            return shapefileRings([(g as Polygon).coordinates]);
+        });
+
+        shpWrite(rows, isLine ? 'POLYLINE' : 'POLYGON', geometries, (err, files) => {
+            if (err) throw err;
+            zip.file(`${name}.shp`, files.shp.buffer, { binary: true });
+            zip.file(`${name}.shx`, files.shx.buffer, { binary: true });
+            zip.file(`${name}.dbf`, files.dbf.buffer, { binary: true });
+            zip.file(`${name}.prj`, WGS84_PRJ);
+        });
+    });
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137,298.257223563]],PRIMEM["Greenwich",0],UNIT["Degree",0.017453292519943295]]';
+
+export function downloadBlob(content: Blob | string, filename: string, mimeType: string) {
+    const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
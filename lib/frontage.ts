@@ -0,0 +1,214 @@
+import { Feature, LineString, MultiPolygon, Polygon, Position } from 'geojson';
+import { boundaryEdges, getRoadClass } from './geo';
+import { getRoadIndex, segmentCoordinates, segmentsNear } from './roadIndex';
+
+// Road frontage: how much of the boundary runs alongside a road, i.e. lies
+// within `toleranceMeters` of a road centreline. Measured per road and per
+// highway class, with the fronting stretches kept for drawing on the map.
+
+// Centreline to boundary: half a carriageway plus a verge
+export const DEFAULT_FRONTAGE_TOLERANCE_METERS = 15;
+
+// Colour of the frontage lines per road class; other classes use the fallback
+export const FRONTAGE_CLASS_COLORS: Record<string, string> = {
+    motorway: '#c2185b',
+    trunk: '#d84315',
+    primary: '#ef6c00',
+    secondary: '#f9a825',
+    tertiary: '#7cb342',
+    residential: '#00897b',
+    unclassified: '#5e35b1',
+    service: '#757575'
+};
+export const FRONTAGE_FALLBACK_COLOR = '#6d4c41';
+
+export interface RoadFrontage {
+    roadIndex: number;
+    name: string;
+    ref: string;
+    highway: string; // road class (getRoadClass)
+    lengthMeters: number;
+}
+
+// One stretch of boundary edge along one road
+export interface FrontageSegment {
+    roadIndex: number;
+    highway: string;
+    coordinates: [Position, Position];
+    lengthMeters: number;
+}
+
+export interface FrontageResult {
+    toleranceMeters: number;
+    perimeterMeters: number;
+    frontageMeters: number; // boundary along any road, each stretch counted once
+    byClass: Record<string, number>; // boundary along roads of each class, counted once per class
+    roads: RoadFrontage[]; // longest frontage first
+    segments: FrontageSegment[];
+    streetCount: number; // distinct streets with more than incidental frontage
+    isCornerPlot: boolean; // fronts two or more streets
+}
+
+type Interval = [number, number];
+
+const EARTH_RADIUS_METERS = 6371008.8;
+
+// Position -> local planar meters around `origin`; fine for a single boundary edge
+function projector(origin: Position) {
+    const kx = (EARTH_RADIUS_METERS * Math.PI / 180) * Math.cos(origin[1] * Math.PI / 180);
+    const ky = EARTH_RADIUS_METERS * Math.PI / 180;
+    return (p: Position): [number, number] => [(p[0] - origin[0]) * kx, (p[1] - origin[1]) * ky];
+}
+
+// t where lo <= a + b·t <= hi; null when no t qualifies
+function linearRange(a: number, b: number, lo: number, hi: number): Interval | null {
+    if (b === 0) return a >= lo && a <= hi ? [-Infinity, Infinity] : null;
+    const t1 = (lo - a) / b;
+    const t2 = (hi - a) / b;
+    return [Math.min(t1, t2), Math.max(t1, t2)];
+}
+
+// t where |t·v - q| <= r
+function discRange(v: [number, number], q: [number, number], r: number): Interval | null {
+    const a = v[0] * v[0] + v[1] * v[1];
+    const b = -2 * (v[0] * q[0] + v[1] * q[1]);
+    const c = q[0] * q[0] + q[1] * q[1] - r * r;
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return null;
+    const root = Math.sqrt(disc);
+    return [(-b - root) / (2 * a), (-b + root) / (2 * a)];
+}
+
+/**
+ * Part of the edge (as t in 0-1 along it, in local meters with the edge
+ * starting at the origin and ending at `v`) within `r` of road segment cd.
+ * The points within r of a segment form a convex capsule, so the part is a
+ * single interval: the hull of the ranges inside the two end discs and the
+ * strip alongside the segment.
+ */
+function edgeRangeNear(v: [number, number], c: [number, number], d: [number, number], r: number): Interval | null {
+    const ranges: (Interval | null)[] = [discRange(v, c, r), discRange(v, d, r)];
+    const w = [d[0] - c[0], d[1] - c[1]];
+    const len = Math.hypot(w[0], w[1]);
+    if (len > 0) {
+        // Projection onto cd (0-1) and signed offset from it, both linear in t
+        const along = linearRange(-(c[0] * w[0] + c[1] * w[1]) / (len * len), (v[0] * w[0] + v[1] * w[1]) / (len * len), 0, 1);
+        const offset = linearRange((w[0] * -c[1] - w[1] * -c[0]) / len, (w[0] * v[1] - w[1] * v[0]) / len, -r, r);
+        if (along && offset) {
+            const lo = Math.max(along[0], offset[0]);
+            const hi = Math.min(along[1], offset[1]);
+            if (lo <= hi) ranges.push([lo, hi]);
+        }
+    }
+    const found = ranges.filter((x): x is Interval => x !== null);
+    if (found.length === 0) return null;
+    const lo = Math.max(0, Math.min(...found.map(x => x[0])));
+    const hi = Math.min(1, Math.max(...found.map(x => x[1])));
+    return lo < hi ? [lo, hi] : null;
+}
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+    const sorted = [...intervals].sort((a, b) => a[0] - b[0]);
+    const merged: Interval[] = [];
+    for (const [lo, hi] of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && lo <= last[1]) last[1] = Math.max(last[1], hi);
+        else merged.push([lo, hi]);
+    }
+    return merged;
+}
+
+const intervalsLength = (intervals: Interval[]) => intervals.reduce((sum, [lo, hi]) => sum + hi - lo, 0);
+
+const pointAlong = ([a, b]: [Position, Position], t: number): Position =>
+    [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+/**
+ * Frontage of the boundary (every ring of every part) along each road. A road
+ * only counts towards `streetCount` with more than twice the tolerance of
+ * frontage, so a side street ending at the plot's edge doesn't make it a
+ * corner plot; ways sharing a name or ref count as one street.
+ */
+export function analyzeFrontage(
+    boundary: Feature<Polygon | MultiPolygon>,
+    roads: Feature<LineString>[],
+    toleranceMeters: number = DEFAULT_FRONTAGE_TOLERANCE_METERS
+): FrontageResult {
+    const edges = boundaryEdges(boundary);
+    const index = getRoadIndex(roads);
+    const tolerance = Math.max(0, toleranceMeters);
+
+    let perimeterMeters = 0;
+    const roadLengths = new Map<number, number>();
+    const classLengths: Record<string, number> = {};
+    const segments: FrontageSegment[] = [];
+    let frontageMeters = 0;
+
+    for (const edge of edges) {
+        const project = projector(edge[0]);
+        const v = project(edge[1]);
+        const edgeMeters = Math.hypot(v[0], v[1]);
+        perimeterMeters += edgeMeters;
+        if (edgeMeters === 0 || roads.length === 0) continue;
+
+        const bbox: [number, number, number, number] = [
+            Math.min(edge[0][0], edge[1][0]), Math.min(edge[0][1], edge[1][1]),
+            Math.max(edge[0][0], edge[1][0]), Math.max(edge[0][1], edge[1][1])
+        ];
+        const perRoad = new Map<number, Interval[]>();
+        for (const segment of segmentsNear(index, bbox, tolerance)) {
+            const [c, d] = segmentCoordinates(index, segment);
+            const range = edgeRangeNear(v, project(c), project(d), tolerance);
+            if (!range) continue;
+            const list = perRoad.get(segment.roadIndex) || [];
+            list.push(range);
+            perRoad.set(segment.roadIndex, list);
+        }
+
+        const perClass = new Map<string, Interval[]>();
+        perRoad.forEach((ranges, roadIndex) => {
+            const highway = getRoadClass(roads[roadIndex]);
+            const merged = mergeIntervals(ranges);
+            roadLengths.set(roadIndex, (roadLengths.get(roadIndex) || 0) + intervalsLength(merged) * edgeMeters);
+            perClass.set(highway, [...(perClass.get(highway) || []), ...merged]);
+            merged.forEach(([lo, hi]) => segments.push({
+                roadIndex,
+                highway,
+                coordinates: [pointAlong(edge, lo), pointAlong(edge, hi)],
+                lengthMeters: (hi - lo) * edgeMeters
+            }));
+        });
+        perClass.forEach((ranges, highway) => {
+            classLengths[highway] = (classLengths[highway] || 0) + intervalsLength(mergeIntervals(ranges)) * edgeMeters;
+        });
+        frontageMeters += intervalsLength(mergeIntervals([...perRoad.values()].flat())) * edgeMeters;
+    }
+
+    const frontingRoads: RoadFrontage[] = [...roadLengths.entries()]
+        .map(([roadIndex, lengthMeters]) => ({
+            roadIndex,
+            name: String(roads[roadIndex].properties?.name || ''),
+            ref: String(roads[roadIndex].properties?.ref || ''),
+            highway: getRoadClass(roads[roadIndex]),
+            lengthMeters
+        }))
+        .sort((a, b) => b.lengthMeters - a.lengthMeters || a.roadIndex - b.roadIndex);
+
+    const streetLengths = new Map<string, number>();
+    frontingRoads.forEach(r => {
+        const key = r.name || r.ref || `#${r.roadIndex}`;
+        streetLengths.set(key, (streetLengths.get(key) || 0) + r.lengthMeters);
+    });
+    const streetCount = [...streetLengths.values()].filter(length => length > 2 * tolerance).length;
+
+    return {
+        toleranceMeters: tolerance,
+        perimeterMeters,
+        frontageMeters,
+        byClass: classLengths,
+        roads: frontingRoads,
+        segments,
+        streetCount,
+        isCornerPlot: streetCount >= 2
+    };
+}
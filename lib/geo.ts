@@ -1,18 +1,22 @@
 
-import { polygon, lineString, point, featureCollection } from '@turf/helpers';
+import RBush from 'rbush';
+import { polygon, multiPolygon, lineString, point, featureCollection } from '@turf/helpers';
 import turfArea from '@turf/area';
 import turfBbox from '@turf/bbox';
 import turfBuffer from '@turf/buffer';
 import turfNearestPointOnLine from '@turf/nearest-point-on-line';
 import turfDistance from '@turf/distance';
-import turfExplode from '@turf/explode';
 import turfSquareGrid from '@turf/square-grid';
+import turfHexGrid from '@turf/hex-grid';
+import turfTriangleGrid from '@turf/triangle-grid';
+import turfTransformRotate from '@turf/transform-rotate';
+import turfBearing from '@turf/bearing';
 import turfIntersect from '@turf/intersect';
 import turfBooleanIntersects from '@turf/boolean-intersects';
-import turfPointToLineDistance from '@turf/point-to-line-distance';
 import turfCentroid from '@turf/centroid';
-import { scaleSequential } from 'd3-scale';
-import { interpolateRdYlBu } from 'd3-scale-chromatic';
+import { createValueScale, DEFAULT_COLOR_SETTINGS } from './colorScale';
+import { DecayCurve, decayUpperBound, evaluateDecay } from './decay';
+import { coversIndex, getRoadIndex, nearestSegment, roadDistancesWithin, searchBox, segmentCoordinates, segmentsNear } from './roadIndex';
 import { Feature, Polygon, MultiPolygon, LineString, Position, FeatureCollection } from 'geojson';
 // The "geojson" package types or types from @turf/helpers
 type GeoJSONPolygon = Feature<Polygon | MultiPolygon>;
@@ -36,24 +40,49 @@ export function normalizePolygon(feature: any): GeoJSONPolygon | null {
     }
 
     if (geomLink.type === 'MultiPolygon') {
+        // Keep every part (with its holes), dropping degenerate ones.
+        // A single remaining part becomes a plain Polygon.
         const coords = geomLink.coordinates as number[][][][];
-        let maxArea = -1;
-        let maxPolyCoords: number[][][] | null = null;
-        coords.forEach((polyCoords) => {
-            const polyFeature = polygon(polyCoords);
-            const a = turfArea(polyFeature);
-            if (a > maxArea) {
-                maxArea = a;
-                maxPolyCoords = polyCoords;
-            }
-        });
-        if (maxPolyCoords) {
-            return polygon(maxPolyCoords) as GeoJSONPolygon;
+        const parts = coords.filter(polyCoords => polyCoords.length > 0 && polyCoords[0].length >= 4);
+        if (parts.length === 0) return null;
+        if (parts.length === 1) {
+            return polygon(parts[0], feature.properties || {}) as GeoJSONPolygon;
         }
+        return multiPolygon(parts, feature.properties || {}) as GeoJSONPolygon;
     }
     return null;
 }
 
+// Signed ring area in degrees² (shoelace); > 0 means counter-clockwise
+function ringOrientation(ring: Position[]): number {
+    let sum = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+        sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    return sum;
+}
+
+/**
+ * Converts a Polygon/MultiPolygon into Google Maps paths: one entry per part,
+ * each holding the outer ring followed by its holes. Google closes rings itself,
+ * so the repeated last vertex is dropped, and holes are wound opposite to the
+ * outer ring so they render as holes.
+ */
+export function geoJSONToGooglePaths(feature: GeoJSONPolygon): google.maps.LatLngLiteral[][][] {
+    const polys = feature.geometry.type === 'Polygon'
+        ? [feature.geometry.coordinates]
+        : feature.geometry.coordinates;
+
+    return polys.map(rings => {
+        const outerSign = Math.sign(ringOrientation(rings[0]));
+        return rings.map((ring, i) => {
+            const open = ring.slice(0, -1);
+            if (i > 0 && Math.sign(ringOrientation(ring)) === outerSign) open.reverse();
+            return open.map(c => ({ lat: c[1], lng: c[0] }));
+        });
+    });
+}
+
 export function googlePathToGeoJSON(path: google.maps.LatLngLiteral[]): GeoJSONPolygon {
     if (path.length < 3) throw new Error("Polygon must have at least 3 points");
     const ring = path.map(p => [p.lng, p.lat]);
@@ -63,6 +92,15 @@ export function googlePathToGeoJSON(path: google.maps.LatLngLiteral[]): GeoJSONP
     return polygon([ring]) as GeoJSONPolygon;
 }
 
+// Inverse of geoJSONToGooglePaths: parts -> rings -> vertices
+export function googlePathsToGeoJSON(parts: google.maps.LatLngLiteral[][][]): GeoJSONPolygon {
+    const polys = parts.map(rings =>
+        rings.map(ring => (googlePathToGeoJSON(ring).geometry as Polygon).coordinates[0])
+    );
+    if (polys.length === 0) throw new Error("Polygon must have at least 3 points");
+    return (polys.length === 1 ? polygon(polys[0]) : multiPolygon(polys)) as GeoJSONPolygon;
+}
+
 export function createBuffer(geojson: GeoJSONPolygon, radiusMeters: number): GeoJSONPolygon | null {
     try {
         // @ts-ignore
@@ -75,115 +113,200 @@ export function createBuffer(geojson: GeoJSONPolygon, radiusMeters: number): Geo
     }
 }
 
-interface ClosestRoadResult {
+// Long-running steps report (items processed, total items) as they go
+export type ProgressFn = (done: number, total: number) => void;
+
+export interface ClosestRoadResult {
     roadIndex: number;
     distanceMeters: number;
     connection: Position[]; // [start, end]
 }
 
-export function findClosestRoadAndConnection(
+export interface NearbyRoad extends ClosestRoadResult {
+    name: string;
+    ref: string;
+    highway: string; // road class, "_link" folded (getRoadClass)
+}
+
+type Segment = [Position, Position];
+
+// Where segments ab and cd cross, treating lon/lat as planar (fine at parcel scale)
+function segmentIntersection([a, b]: Segment, [c, d]: Segment): Position | null {
+    const r = [b[0] - a[0], b[1] - a[1]];
+    const s = [d[0] - c[0], d[1] - c[1]];
+    const denom = r[0] * s[1] - r[1] * s[0];
+    if (denom === 0) return null; // parallel; touching collinear segments are caught by the endpoint checks
+    const qp = [c[0] - a[0], c[1] - a[1]];
+    const t = (qp[0] * s[1] - qp[1] * s[0]) / denom;
+    const u = (qp[0] * r[1] - qp[1] * r[0]) / denom;
+    return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? [a[0] + t * r[0], a[1] + t * r[1]] : null;
+}
+
+/**
+ * Exact gap between a boundary edge and a road segment: 0 where they cross,
+ * otherwise the shortest of the four endpoint-to-segment distances (two
+ * segments that don't cross are closest at an endpoint of one of them).
+ * The connection runs [boundary point, road point].
+ */
+function segmentGap(edge: Segment, road: Segment): { distanceMeters: number, connection: Position[] } {
+    const crossing = segmentIntersection(edge, road);
+    if (crossing) return { distanceMeters: 0, connection: [crossing, crossing] };
+
+    let best = { distanceMeters: Infinity, connection: [] as Position[] };
+    const consider = (from: Position, onto: Segment, fromIsBoundary: boolean) => {
+        const nearest = turfNearestPointOnLine(lineString(onto), point(from), { units: 'meters' });
+        const d = nearest.properties.dist ?? Infinity;
+        if (d < best.distanceMeters) {
+            const to = nearest.geometry.coordinates;
+            best = { distanceMeters: d, connection: fromIsBoundary ? [from, to] : [to, from] };
+        }
+    };
+    edge.forEach(pt => consider(pt, road, true));
+    road.forEach(pt => consider(pt, edge, false));
+    return best;
+}
+
+// Every edge of every ring of every part, as [start, end] pairs
+export function boundaryEdges(polygonFeature: GeoJSONPolygon): [Position, Position][] {
+    const rings = polygonFeature.geometry.type === 'Polygon'
+        ? polygonFeature.geometry.coordinates
+        : polygonFeature.geometry.type === 'MultiPolygon'
+            ? polygonFeature.geometry.coordinates.flat()
+            : [];
+    return rings.flatMap(ring => ring.slice(1).map((pt, i): Segment => [ring[i], pt]));
+}
+
+// First search distance around the boundary; it grows 4x until enough roads are inside it
+const INITIAL_SEARCH_METERS = 100;
+
+/**
+ * The `count` roads closest to the boundary (every ring of every part, so roads
+ * running past an enclave or through a courtyard count too), nearest first,
+ * each with its exact distance and connection line. Only road segments within
+ * the current search distance of a boundary edge are measured (lib/roadIndex);
+ * the distance widens until `count` roads lie inside it.
+ */
+export function findClosestRoads(
     polygonFeature: GeoJSONPolygon,
-    roads: Feature<LineString>[]
-): ClosestRoadResult | null {
-    if (!polygonFeature || !roads || roads.length === 0) return null;
-
-    // 1. Convert Polygon boundary to LineString(s)
-    let boundaryLines: Feature<LineString>[] = [];
-    if (polygonFeature.geometry.type === 'Polygon') {
-        // Outer ring only
-        boundaryLines.push(lineString(polygonFeature.geometry.coordinates[0]));
-    } else if (polygonFeature.geometry.type === 'MultiPolygon') {
-        // Should have been normalized, but just in case
-        polygonFeature.geometry.coordinates.forEach(poly => {
-            boundaryLines.push(lineString(poly[0]));
+    roads: Feature<LineString>[],
+    count: number = 1,
+    onProgress?: ProgressFn // boundary edges checked, per search pass
+): NearbyRoad[] {
+    if (!polygonFeature || !roads || roads.length === 0 || count < 1) return [];
+
+    const edges = boundaryEdges(polygonFeature);
+    if (edges.length === 0) return [];
+
+    const index = getRoadIndex(roads);
+    const edgeBox = ([a, b]: Segment): [number, number, number, number] =>
+        [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[0], b[0]), Math.max(a[1], b[1])];
+    const closest = new Map<number, ClosestRoadResult>(); // best gap so far per road
+    const measured = new Set<number>(); // edge * segmentCount + segment id
+
+    let radius = INITIAL_SEARCH_METERS;
+    let complete = false;
+    for (;;) {
+        edges.forEach((edge, e) => {
+            segmentsNear(index, edgeBox(edge), radius).forEach(segment => {
+                const key = e * index.segmentCount + segment.id;
+                if (measured.has(key)) return;
+                measured.add(key);
+                const gap = segmentGap(edge, segmentCoordinates(index, segment));
+                if (gap.distanceMeters < (closest.get(segment.roadIndex)?.distanceMeters ?? Infinity)) {
+                    closest.set(segment.roadIndex, { roadIndex: segment.roadIndex, ...gap });
+                }
+            });
+            onProgress?.(e + 1, edges.length);
         });
+
+        // A road whose gap is within the radius had its closest segment pair measured;
+        // once every edge's search reaches every segment, all pairs have been
+        complete = edges.every(edge => coversIndex(index, edgeBox(edge), radius));
+        const settled = [...closest.values()].filter(r => complete || r.distanceMeters <= radius);
+        if (complete || settled.length >= count) break;
+        radius *= 4;
     }
 
-    if (boundaryLines.length === 0) return null;
-
-    // Use the first/main boundary for calculation
-    const boundary = boundaryLines[0];
-
-    let globalMinDist = Infinity;
-    let closestRoadIndex = -1;
-    let bestConnection: Position[] = [];
-
-    // Helper: Find closest distance between two LineStrings by sampling vertices
-    // Improve accuracy: also sample points along lines if vertices are sparse?
-    // For now, vertices + exploded points should be decent approximation for OSM data which is dense.
-
-    roads.forEach((road, index) => {
-        // Strategy: 
-        // A. Iterate vertices of Boundary -> find Nearest on Road
-        // B. Iterate vertices of Road -> find Nearest on Boundary
-        // Take min.
-
-        let currentMinDist = Infinity;
-        let currentConnection: Position[] = [];
-
-        // A. Boundary Points -> Road
-        const boundaryPoints = turfExplode(boundary);
-        boundaryPoints.features.forEach(pt => {
-            const nearestOnRoad = turfNearestPointOnLine(road, pt, { units: 'meters' });
-            if (nearestOnRoad && nearestOnRoad.properties && nearestOnRoad.properties.dist !== undefined) {
-                const d = nearestOnRoad.properties.dist; // already in meters? 
-                // turf-nearest-point-on-line returns dist in km by default unless units specified?
-                // Checking docs: 'units' option default is kilometers. We passed 'meters'? 
-                // Actually default might be km. Let's force check.
-                // NOTE: turf types might be tricky. Let's trust it returns number.
-                // If units='meters', it returns number in meters.
-                if (d < currentMinDist) {
-                    currentMinDist = d;
-                    currentConnection = [pt.geometry.coordinates, nearestOnRoad.geometry.coordinates];
-                }
-            }
-        });
+    return [...closest.values()]
+        .filter(r => complete || r.distanceMeters <= radius)
+        .sort((a, b) => a.distanceMeters - b.distanceMeters || a.roadIndex - b.roadIndex)
+        .slice(0, count)
+        .map(r => ({
+            ...r,
+            name: String(roads[r.roadIndex].properties?.name || ''),
+            ref: String(roads[r.roadIndex].properties?.ref || ''),
+            highway: getRoadClass(roads[r.roadIndex])
+        }));
+}
 
-        // B. Road Points -> Boundary
-        const roadPoints = turfExplode(road);
-        roadPoints.features.forEach(pt => {
-            const nearestOnBoundary = turfNearestPointOnLine(boundary, pt, { units: 'meters' });
-            if (nearestOnBoundary && nearestOnBoundary.properties && nearestOnBoundary.properties.dist !== undefined) {
-                const d = nearestOnBoundary.properties.dist;
-                if (d < currentMinDist) {
-                    currentMinDist = d;
-                    currentConnection = [nearestOnBoundary.geometry.coordinates, pt.geometry.coordinates];
-                }
-            }
-        });
+export function findClosestRoadAndConnection(
+    polygonFeature: GeoJSONPolygon,
+    roads: Feature<LineString>[],
+    onProgress?: ProgressFn
+): ClosestRoadResult | null {
+    const [closest] = findClosestRoads(polygonFeature, roads, 1, onProgress);
+    return closest ? { roadIndex: closest.roadIndex, distanceMeters: closest.distanceMeters, connection: closest.connection } : null;
+}
 
-        if (currentMinDist < globalMinDist) {
-            globalMinDist = currentMinDist;
-            closestRoadIndex = index;
-            bestConnection = currentConnection;
-        }
-    });
+export type GridType = 'square' | 'hexagon' | 'triangle' | 'aligned';
 
-    if (closestRoadIndex !== -1) {
-        return {
-            roadIndex: closestRoadIndex,
-            distanceMeters: globalMinDist,
-            connection: bestConnection
-        };
-    }
+// Bearing (degrees clockwise from north) of the road segment closest to `pt`
+export function getRoadBearingAt(road: Feature<LineString>, pt: Position): number {
+    const coords = road.geometry.coordinates;
+    if (coords.length < 2) return 0;
+    const nearest = turfNearestPointOnLine(road, pt, { units: 'meters' });
+    const i = Math.min(nearest.properties.index ?? 0, coords.length - 2);
+    return turfBearing(coords[i], coords[i + 1]);
+}
 
-    return null;
+// Bbox grown by `meters` on every side; turf grids only fit whole cells inside their bbox
+function padBbox(bbox: number[], meters: number): [number, number, number, number] {
+    const [minX, minY, maxX, maxY] = bbox;
+    const dLat = meters / 111320;
+    const dLng = meters / (111320 * Math.max(Math.cos(((minY + maxY) / 2) * Math.PI / 180), 0.01));
+    return [minX - dLng, minY - dLat, maxX + dLng, maxY + dLat];
 }
 
-export function generateSubdivisionGrid(polygonFeature: GeoJSONPolygon, cellSizeMeters: number): Feature<Polygon>[] {
+/**
+ * Splits the polygon into cells clipped to its boundary.
+ * cellSizeMeters is the side length for squares and triangles and the
+ * centre-to-vertex radius for hexagons. 'aligned' is a square grid rotated by
+ * `bearingDeg` (e.g. from getRoadBearingAt) so cells run parallel to a road.
+ */
+export function generateSubdivisionGrid(
+    polygonFeature: GeoJSONPolygon,
+    cellSizeMeters: number,
+    gridType: GridType = 'square',
+    bearingDeg: number = 0,
+    onProgress?: ProgressFn // candidate cells over the bbox checked against the boundary
+): Feature<Polygon>[] {
     if (!polygonFeature) return [];
 
-    const bbox = turfBbox(polygonFeature);
     // squareGrid uses units (kilometers default). Convert meters to km.
     const cellSideKm = cellSizeMeters / 1000;
-
-    // @ts-ignore
-    const grid = turfSquareGrid(bbox, cellSideKm, { units: 'kilometers' });
+    const gridBbox = (f: GeoJSONPolygon) => padBbox(turfBbox(f), cellSizeMeters * 2);
+
+    let grid: FeatureCollection<Polygon>;
+    if (gridType === 'hexagon') {
+        grid = turfHexGrid(gridBbox(polygonFeature), cellSideKm, { units: 'kilometers' });
+    } else if (gridType === 'triangle') {
+        grid = turfTriangleGrid(gridBbox(polygonFeature), cellSideKm, { units: 'kilometers' });
+    } else if (gridType === 'aligned') {
+        // Build an axis-aligned grid over the boundary rotated the other way, then rotate the
+        // cells back so their edges follow the bearing. Clipping below uses the original boundary.
+        const pivot = turfCentroid(polygonFeature);
+        const unrotated = turfTransformRotate(polygonFeature, -bearingDeg, { pivot });
+        const squares = turfSquareGrid(gridBbox(unrotated), cellSideKm, { units: 'kilometers' });
+        grid = featureCollection(squares.features.map(cell => turfTransformRotate(cell, bearingDeg, { pivot })));
+    } else {
+        grid = turfSquareGrid(gridBbox(polygonFeature), cellSideKm, { units: 'kilometers' });
+    }
 
     const clippedCells: Feature<Polygon>[] = [];
 
     // Filter and clip
-    grid.features.forEach((cell) => {
+    grid.features.forEach((cell, index) => {
+        onProgress?.(index, grid.features.length);
         // First quick check
         const intersects = turfBooleanIntersects(cell, polygonFeature);
         if (intersects) {
@@ -206,6 +329,7 @@ export function generateSubdivisionGrid(polygonFeature: GeoJSONPolygon, cellSize
             }
         }
     });
+    onProgress?.(grid.features.length, grid.features.length);
 
     return clippedCells;
 }
@@ -215,54 +339,277 @@ export interface CellValue {
     distance: number;
     value: number;
     color: string;
+    roadIndex?: number; // Road that drove the value (index into the roads array)
+    euclideanDistance?: number; // Straight-line distance, set when `distance` is a network distance
+    roadValue?: number; // Road-only value, set when `value` is a composite with POI factors
+    poiDistances?: Record<string, number>; // Distance (m) to the nearest POI of each category
+    areaSqM?: number; // Clipped cell area, set by lib/pricing
+    price?: number; // Currency value of the whole cell, set by lib/pricing
 }
 
+// One points-of-interest category in the composite valuation (see lib/poi for categories)
+export interface PoiFactor {
+    category: string;
+    points: Position[];
+    weight: number;
+    halfDistance: number; // meters at which this factor is worth half its weight
+}
+
+// Relative importance of each OSM highway class when valuing against the whole network.
+// 1 = full value next to the road, 0 = road is ignored.
+export type RoadClassWeights = Record<string, number>;
+
+export const DEFAULT_ROAD_CLASS_WEIGHTS: RoadClassWeights = {
+    motorway: 1.0,
+    trunk: 0.9,
+    primary: 0.8,
+    secondary: 0.6,
+    tertiary: 0.45,
+    unclassified: 0.3,
+    residential: 0.3,
+    service: 0.15
+};
+
+// OSM highway class of a road, with "_link" ramps folded into their parent class
+export function getRoadClass(road: Feature<LineString>): string {
+    const highway = road.properties?.highway;
+    if (typeof highway !== 'string') return 'unclassified';
+    return highway.replace(/_link$/, '');
+}
+
+// Human-readable label for a road, e.g. "MG Road (primary)"
+export function getRoadLabel(road: Feature<LineString>): string {
+    const name = road.properties?.name || road.properties?.ref || 'Unnamed road';
+    return `${name} (${getRoadClass(road)})`;
+}
+
+// Colours with the default scheme; the page and pipeline recolour with the user's (lib/colorScale)
+const defaultScale = createValueScale([], DEFAULT_COLOR_SETTINGS);
+
+function colorForValue(val: number): string {
+    return defaultScale.color(val);
+}
+
+/**
+ * Values every cell by its distance to `roads[roadIndex]`, looked up in the
+ * road segment index (lib/roadIndex) shared with the closest-road search.
+ */
 export function calculateLandValues(
     cells: Feature<Polygon>[],
-    roadFeature: Feature<LineString>,
-    mode: 'linear' | 'exponential',
-    decayK: number = 0.005,
-    maxDistanceOverride?: number
+    roads: Feature<LineString>[],
+    roadIndex: number,
+    curve: DecayCurve,
+    maxDistanceOverride?: number,
+    networkDistanceFn?: (pt: Position) => number, // e.g. from createNetworkDistanceFn in lib/roadGraph
+    onProgress?: ProgressFn
 ): CellValue[] {
-    if (!cells.length || !roadFeature) return [];
-
-    const results = cells.map(cell => {
-        const center = turfCentroid(cell);
-        // calculate min distance from center to road line
-        // units: meters
-        const dist = turfPointToLineDistance(center, roadFeature, { units: 'meters' });
+    if (!cells.length || !roads[roadIndex]) return [];
+
+    const index = getRoadIndex(roads);
+    const onRoad = (i: number) => i === roadIndex;
+
+    const results: CellValue[] = cells.map((cell, i) => {
+        onProgress?.(i, cells.length);
+        const center = turfCentroid(cell).geometry.coordinates;
+        // Straight-line distance from the centroid to the road, meters
+        const dist = nearestSegment(index, center, { include: onRoad })?.distanceMeters ?? Infinity;
+        if (networkDistanceFn) {
+            return {
+                feature: cell,
+                distance: networkDistanceFn(center),
+                euclideanDistance: dist,
+                value: 0,
+                color: '',
+                roadIndex
+            };
+        }
         return {
             feature: cell,
             distance: dist,
             value: 0,
-            color: ''
+            color: '',
+            roadIndex
         };
     });
 
-    const maxDist = maxDistanceOverride || Math.max(...results.map(r => r.distance), 1); // avoid 0
-    // 0 = Red, 1 = Blue.
-    const colorScale = scaleSequential(interpolateRdYlBu).domain([0, 1]);
+    // Cells unreachable over the network have Infinity distance and end up with value 0
+    const finiteDists = results.map(r => r.distance).filter(d => Number.isFinite(d));
+    const maxDist = maxDistanceOverride || Math.max(...finiteDists, 1); // avoid 0
 
     results.forEach(r => {
-        let val = 0;
-        if (mode === 'linear') {
-            // Linear: 1 - (d / maxD)
-            val = Math.max(0, 1 - (r.distance / maxDist));
-        } else {
-            // Exp: exp(-k * d)
-            val = Math.exp(-decayK * r.distance);
-        }
-        r.value = val;
-
-        // Color mapping
-        // Value 1 (High/Close) -> Warm (Red) -> Low t
-        // Value 0 (Low/Far) -> Cool (Blue) -> High t
-        // interpolateRdYlBu(t): 0=Red, 1=Blue.
-        // t = 1 - val. 
-        // If val=1 (High Value), t=0 (Red/Warm).
-        // If val=0 (Low Value), t=1 (Blue/Cool).
-        r.color = colorScale(1 - val);
+        r.value = evaluateDecay(curve, r.distance, maxDist);
+        r.color = colorForValue(r.value);
     });
+    onProgress?.(cells.length, cells.length);
 
     return results;
 }
+
+/**
+ * Values every cell against all roads at once. Each road contributes
+ * weight(class) * decay(distance); the strongest contribution wins and is
+ * recorded as the cell's driving road.
+ */
+export function calculateMultiRoadLandValues(
+    cells: Feature<Polygon>[],
+    roads: Feature<LineString>[],
+    curve: DecayCurve,
+    weights: RoadClassWeights = DEFAULT_ROAD_CLASS_WEIGHTS,
+    maxDistanceOverride?: number,
+    onProgress?: ProgressFn
+): CellValue[] {
+    if (!cells.length || !roads.length) return [];
+
+    const roadWeights = roads.map(road => weights[getRoadClass(road)] ?? 0);
+    const maxWeight = Math.max(...roadWeights, 0);
+    const weighted = (i: number) => roadWeights[i] > 0;
+    const index = getRoadIndex(roads);
+    const centers = cells.map(cell => turfCentroid(cell).geometry.coordinates);
+
+    // Linear decay normalises against the farthest "nearest road" of any cell
+    const nearest = centers.map(center => nearestSegment(index, center, { include: weighted }));
+    const nearestDistances = nearest.filter(hit => hit !== null).map(hit => hit.distanceMeters);
+    const maxDist = maxDistanceOverride || Math.max(...nearestDistances, 1); // avoid 0
+
+    return cells.map((cell, cellIndex) => {
+        onProgress?.(cellIndex + 1, cells.length);
+        let bestValue = 0;
+        let bestRoad = -1;
+        let bestDistance = Infinity;
+
+        const hit = nearest[cellIndex];
+        if (hit) {
+            // Only roads within `radius` are measured. The window doubles until no road
+            // beyond it could contribute more than the best one inside it.
+            let radius = Math.max(2 * hit.distanceMeters, 100);
+            for (;;) {
+                const { distances, complete } = roadDistancesWithin(index, centers[cellIndex], radius, weighted);
+                bestValue = 0;
+                bestRoad = -1;
+                bestDistance = Infinity;
+                distances.forEach((d, roadIndex) => {
+                    const v = roadWeights[roadIndex] * evaluateDecay(curve, d, maxDist);
+                    // Ties (e.g. everything beyond maxDist with linear decay) go to the closer road
+                    if (v > bestValue || (v === bestValue && d < bestDistance)) {
+                        bestValue = v;
+                        bestRoad = roadIndex;
+                        bestDistance = d;
+                    }
+                });
+                if (complete || maxWeight * decayUpperBound(curve, radius, maxDist) <= bestValue) break;
+                radius *= 2;
+            }
+        }
+
+        return {
+            feature: cell,
+            distance: bestDistance,
+            value: bestValue,
+            color: colorForValue(bestValue),
+            roadIndex: bestRoad === -1 ? undefined : bestRoad
+        };
+    });
+}
+
+interface PoiBox {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    index: number; // into the factor's points
+}
+
+// First POI search window; it grows 4x until it holds a POI closer than its half-width
+const POI_SEARCH_RADIUS_METERS = 500;
+
+// R-tree over a factor's points, as lib/roadIndex does for road segments
+function buildPoiTree(points: Position[]): RBush<PoiBox> {
+    const tree = new RBush<PoiBox>();
+    tree.load(points.map(([x, y], index) => ({ minX: x, minY: y, maxX: x, maxY: y, index })));
+    return tree;
+}
+
+// Meters from `pt` to the nearest of the indexed points
+function nearestPoiDistance(tree: RBush<PoiBox>, points: Position[], pt: Position): number {
+    const extent = tree.toJSON() as RBush.BBox; // the root box covers every point
+    for (let radius = POI_SEARCH_RADIUS_METERS; ; radius *= 4) {
+        const box = searchBox([pt[0], pt[1], pt[0], pt[1]], radius);
+        let best = Infinity;
+        for (const { index } of tree.search(box)) {
+            best = Math.min(best, turfDistance(pt, points[index], { units: 'meters' }));
+        }
+        const exhaustive = box.minX <= extent.minX && box.minY <= extent.minY && box.maxX >= extent.maxX && box.maxY >= extent.maxY;
+        if (best <= radius || exhaustive) return best;
+    }
+}
+
+/**
+ * Blends road-based values with points-of-interest proximity. Each factor
+ * decays as 0.5^(d / halfDistance) from the nearest POI of its category; the
+ * result is the weighted mean of the road value (weight `roadWeight`) and the
+ * factor values, so it stays in 0-1.
+ */
+export function calculateCompositeLandValues(
+    roadValues: CellValue[],
+    factors: PoiFactor[],
+    roadWeight: number = 1,
+    onProgress?: ProgressFn
+): CellValue[] {
+    const activeFactors = factors.filter(f => f.weight > 0 && f.points.length > 0);
+    const totalWeight = roadWeight + activeFactors.reduce((sum, f) => sum + f.weight, 0);
+    if (!roadValues.length || totalWeight <= 0) return roadValues;
+    const trees = activeFactors.map(factor => buildPoiTree(factor.points));
+
+    return roadValues.map((cell, index) => {
+        onProgress?.(index + 1, roadValues.length);
+        const center = turfCentroid(cell.feature).geometry.coordinates;
+        const poiDistances: Record<string, number> = {};
+        let weighted = roadWeight * cell.value;
+
+        activeFactors.forEach((factor, i) => {
+            const d = nearestPoiDistance(trees[i], factor.points, center);
+            poiDistances[factor.category] = d;
+            weighted += factor.weight * Math.pow(0.5, d / Math.max(factor.halfDistance, 1));
+        });
+
+        const value = weighted / totalWeight;
+        return {
+            ...cell,
+            value,
+            color: colorForValue(value),
+            roadValue: cell.value,
+            poiDistances
+        };
+    });
+}
+
+// What the cell inspector shows beyond the CellValue itself
+export interface CellInspection {
+    centroid: Position; // the point the cell's distances are measured from
+    areaSqM: number;
+    road: { index: number; name: string; ref: string; highway: string } | null;
+    roadPoint: Position | null; // nearest point on that road to the centroid
+    roadDistanceMeters: number | null; // straight line, centroid to roadPoint
+}
+
+export function inspectCell(cell: CellValue, roads: Feature<LineString>[]): CellInspection {
+    const centroid = turfCentroid(cell.feature).geometry.coordinates;
+    const areaSqM = cell.areaSqM ?? turfArea(cell.feature);
+    const roadIndex = cell.roadIndex;
+    const road = roadIndex !== undefined ? roads[roadIndex] : undefined;
+    if (roadIndex === undefined || !road) return { centroid, areaSqM, road: null, roadPoint: null, roadDistanceMeters: null };
+
+    const hit = nearestSegment(getRoadIndex(roads), centroid, { include: i => i === roadIndex });
+    return {
+        centroid,
+        areaSqM,
+        road: {
+            index: roadIndex,
+            name: String(road.properties?.name || ''),
+            ref: String(road.properties?.ref || ''),
+            highway: getRoadClass(road)
+        },
+        roadPoint: hit?.point ?? null,
+        roadDistanceMeters: hit?.distanceMeters ?? null
+    };
+}
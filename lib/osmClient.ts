@@ -0,0 +1,50 @@
+import { Feature, LineString, MultiPolygon, Point, Polygon } from 'geojson';
+import { createBuffer, getBoundingBox } from './geo';
+
+// Browser-side calls to the /api/osm/* routes. Both search the boundary's
+// bounding box grown by the buffer distance.
+
+function searchBbox(boundary: Feature<Polygon | MultiPolygon>, bufferDistance: number) {
+    const buffered = createBuffer(boundary, bufferDistance);
+    if (!buffered) throw new Error("Failed to create buffer");
+    return getBoundingBox(buffered); // [minX, minY, maxX, maxY]
+}
+
+async function postJSON(url: string, body: unknown, failure: string) {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+
+    if (!res.ok) {
+        const errData = await res.json();
+        throw new Error(errData.error || failure);
+    }
+    return res.json();
+}
+
+export async function fetchRoads(
+    boundary: Feature<Polygon | MultiPolygon>,
+    bufferDistance: number,
+    types: string[]
+): Promise<Feature<LineString>[]> {
+    if (types.length === 0) throw new Error("Select at least one road type.");
+
+    const bbox = searchBbox(boundary, bufferDistance);
+    const geojson = await postJSON('/api/osm/roads', { bbox, types }, "Failed to fetch roads");
+    return geojson.features.filter((f: Feature) => f.geometry.type === 'LineString');
+}
+
+export async function fetchPois(
+    boundary: Feature<Polygon | MultiPolygon>,
+    bufferDistance: number,
+    categories: string[]
+): Promise<Feature<Point>[]> {
+    if (categories.length === 0) throw new Error("Select at least one POI category.");
+
+    // Same search area as the roads
+    const bbox = searchBbox(boundary, bufferDistance);
+    const geojson = await postJSON('/api/osm/pois', { bbox, categories }, "Failed to fetch points of interest");
+    return geojson.features;
+}
@@ -0,0 +1,274 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fetchUpstreamJSON, UpstreamError, UpstreamResult } from './upstream';
+import { classifyPoi, getPoiCategory } from './poi';
+
+// Where the /api/osm/* routes get their data from. Server-side only.
+//
+// Configuration (env):
+//   OSM_PROVIDER         'live' (default), 'fixtures' (offline, from OSM_FIXTURES_DIR)
+//                        or 'record' (live, and every response is saved as a fixture)
+//   OVERPASS_API_URL     Overpass interpreter endpoint (default https://overpass-api.de/api/interpreter)
+//   NOMINATIM_BASE_URL   Nominatim server root (default https://nominatim.openstreetmap.org)
+//   OSM_FIXTURES_DIR     recorded responses (default fixtures/osm)
+//
+// Fixture layout:
+//   search/<query-slug>.json           Nominatim search response
+//   boundary/<osm_type>-<osm_id>.json  Overpass response for the boundary query
+//   roads/<name>.json                  { bbox, types, data } where data is an Overpass response;
+//                                      serves any request inside bbox for a subset of types
+//   pois/<name>.json                   { bbox, categories, data }, same idea for POI categories (lib/poi)
+
+export type BBox = [number, number, number, number]; // [minX, minY, maxX, maxY]
+
+export type OsmElementType = 'relation' | 'way';
+
+export interface OsmProvider {
+    name: string;
+    search(query: string): Promise<UpstreamResult<unknown>>;
+    boundary(osmType: OsmElementType, osmId: string): Promise<UpstreamResult<unknown>>;
+    roads(bbox: BBox, types: string[]): Promise<UpstreamResult<unknown>>;
+    pois(bbox: BBox, categoryIds: string[]): Promise<UpstreamResult<unknown>>;
+}
+
+export const DEFAULT_OVERPASS_API_URL = 'https://overpass-api.de/api/interpreter';
+export const DEFAULT_NOMINATIM_BASE_URL = 'https://nominatim.openstreetmap.org';
+
+// Lower-cased and whitespace-collapsed, so equivalent searches share cache entries and fixtures
+export function normalizeSearchQuery(q: string): string {
+    return q.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function buildBoundaryQuery(osmType: OsmElementType, osmId: string): string {
+    // Query: [out:json]; relation(ID); out geom;
+    const typeShort = osmType === 'relation' ? 'rel' : 'way';
+    return `[out:json]; ${typeShort}(${osmId}); out geom;`;
+}
+
+export function buildRoadsQuery(bbox: BBox, types: string[]): string {
+    // Convert types array to regex string for Overpass
+    // e.g., types=["primary", "secondary"] -> "primary|secondary"
+    const typeRegex = types.join('|');
+
+    // BBox in Overpass is (south, west, north, east) -> (minY, minX, maxY, maxX)
+    // Turf/GeoJSON bbox is [minX, minY, maxX, maxY]
+    const [minX, minY, maxX, maxY] = bbox;
+    const overpassBbox = `${minY},${minX},${maxY},${maxX}`;
+
+    // Query: ways with highway matching regex in bbox
+    return `
+      [out:json][timeout:25];
+      (
+        way["highway"~"^(${typeRegex})$"](${overpassBbox});
+      );
+      out geom;
+    `;
+}
+
+export function buildPoisQuery(bbox: BBox, categoryIds: string[]): string {
+    const [minX, minY, maxX, maxY] = bbox;
+    const overpassBbox = `${minY},${minX},${maxY},${maxX}`;
+    const selectors = categoryIds.flatMap(id => getPoiCategory(id)?.selectors || []);
+
+    // nwr = nodes, ways and relations; "out center" gives ways/relations a single point
+    return `
+      [out:json][timeout:25];
+      (
+        ${selectors.map(sel => `nwr${sel}(${overpassBbox});`).join('\n        ')}
+      );
+      out center;
+    `;
+}
+
+// --- Live ---
+
+export function createLiveProvider(
+    overpassUrl: string = DEFAULT_OVERPASS_API_URL,
+    nominatimBaseUrl: string = DEFAULT_NOMINATIM_BASE_URL
+): OsmProvider {
+    const overpass = (query: string) => fetchUpstreamJSON<unknown>({
+        url: overpassUrl,
+        method: 'POST',
+        body: query
+    });
+
+    return {
+        name: 'live',
+        search(query) {
+            const params = new URLSearchParams({
+                q: normalizeSearchQuery(query),
+                format: 'json',
+                polygon_geojson: '1',
+                addressdetails: '1',
+                limit: '5'
+            });
+            return fetchUpstreamJSON<unknown>({
+                url: `${nominatimBaseUrl.replace(/\/+$/, '')}/search?${params.toString()}`,
+                // Polite User Agent
+                headers: {
+                    'User-Agent': 'LandValueGradientApp/1.0',
+                    'Referer': 'http://localhost:3000'
+                }
+            });
+        },
+        boundary: (osmType, osmId) => overpass(buildBoundaryQuery(osmType, osmId)),
+        roads: (bbox, types) => overpass(buildRoadsQuery(bbox, types)),
+        pois: (bbox, categoryIds) => overpass(buildPoisQuery(bbox, categoryIds))
+    };
+}
+
+// --- Fixtures ---
+
+const slug = (s: string) => normalizeSearchQuery(s).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'empty';
+
+interface OverpassFixtureData {
+    elements?: { type: string; tags?: Record<string, string> }[];
+}
+
+interface RoadsFixture {
+    bbox: BBox;
+    types: string[];
+    data: OverpassFixtureData;
+}
+
+interface PoisFixture {
+    bbox: BBox;
+    categories: string[];
+    data: OverpassFixtureData;
+}
+
+const fixtureResult = (data: unknown): UpstreamResult<unknown> => ({ data, cacheStatus: 'FIXTURE', ageSeconds: 0 });
+
+async function readFixture<T>(file: string): Promise<T> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new UpstreamError(`No recorded fixture at ${path.relative(process.cwd(), file)}`, 404);
+        }
+        throw e;
+    }
+}
+
+async function listJsonFiles(dir: string): Promise<string[]> {
+    try {
+        return (await fs.readdir(dir)).filter(f => f.endsWith('.json')).map(f => path.join(dir, f));
+    } catch {
+        return [];
+    }
+}
+
+const bboxContains = (outer: BBox, inner: BBox) =>
+    outer[0] <= inner[0] && outer[1] <= inner[1] && outer[2] >= inner[2] && outer[3] >= inner[3];
+
+const bboxArea = (b: BBox) => (b[2] - b[0]) * (b[3] - b[1]);
+
+// Smallest recorded area that covers the request and was recorded with every requested kind
+async function findCoveringFixture<F extends { bbox: BBox }>(
+    dir: string,
+    bbox: BBox,
+    requested: string[],
+    recordedKinds: (f: F) => string[]
+): Promise<F | undefined> {
+    const fixtures = await Promise.all((await listJsonFiles(dir)).map(f => readFixture<F>(f)));
+    return fixtures
+        .filter(f => bboxContains(f.bbox, bbox) && requested.every(k => recordedKinds(f).includes(k)))
+        .sort((a, b) => bboxArea(a.bbox) - bboxArea(b.bbox))[0];
+}
+
+export function createFixtureProvider(dir: string): OsmProvider {
+    return {
+        name: 'fixtures',
+        async search(query) {
+            // An unrecorded search is just a search with no results
+            try {
+                return fixtureResult(await readFixture(path.join(dir, 'search', `${slug(query)}.json`)));
+            } catch (e) {
+                if (e instanceof UpstreamError && e.status === 404) return fixtureResult([]);
+                throw e;
+            }
+        },
+        async boundary(osmType, osmId) {
+            return fixtureResult(await readFixture(path.join(dir, 'boundary', `${osmType}-${osmId}.json`)));
+        },
+        async roads(bbox, types) {
+            const match = await findCoveringFixture<RoadsFixture>(path.join(dir, 'roads'), bbox, types, f => f.types);
+            if (!match) {
+                throw new UpstreamError(`No recorded roads fixture covers [${bbox.join(', ')}] for ${types.join(', ')}`, 404);
+            }
+
+            // Overpass would only have returned the requested classes. Ways outside the
+            // requested bbox are kept; the client measures distances, it doesn't clip.
+            const wanted = new Set(types);
+            const elements = (match.data.elements || []).filter(el =>
+                el.type !== 'way' || wanted.has(el.tags?.highway || '')
+            );
+            return fixtureResult({ ...match.data, elements });
+        },
+        async pois(bbox, categoryIds) {
+            const match = await findCoveringFixture<PoisFixture>(path.join(dir, 'pois'), bbox, categoryIds, f => f.categories);
+            if (!match) {
+                throw new UpstreamError(`No recorded POI fixture covers [${bbox.join(', ')}] for ${categoryIds.join(', ')}`, 404);
+            }
+            const elements = (match.data.elements || []).filter(el => classifyPoi(el.tags || {}, categoryIds) !== null);
+            return fixtureResult({ ...match.data, elements });
+        }
+    };
+}
+
+// --- Recording ---
+
+async function writeFixture(file: string, data: unknown) {
+    try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(data, null, 2));
+    } catch (e) {
+        console.error("Fixture write failed", e);
+    }
+}
+
+// Live provider that saves every successful response in the fixture layout above
+export function createRecordingProvider(live: OsmProvider, dir: string): OsmProvider {
+    return {
+        name: 'record',
+        async search(query) {
+            const result = await live.search(query);
+            await writeFixture(path.join(dir, 'search', `${slug(query)}.json`), result.data);
+            return result;
+        },
+        async boundary(osmType, osmId) {
+            const result = await live.boundary(osmType, osmId);
+            await writeFixture(path.join(dir, 'boundary', `${osmType}-${osmId}.json`), result.data);
+            return result;
+        },
+        async roads(bbox, types) {
+            const result = await live.roads(bbox, types);
+            const name = bbox.map(n => n.toFixed(5)).join('_');
+            await writeFixture(path.join(dir, 'roads', `${name}.json`), { bbox, types, data: result.data });
+            return result;
+        },
+        async pois(bbox, categoryIds) {
+            const result = await live.pois(bbox, categoryIds);
+            const name = bbox.map(n => n.toFixed(5)).join('_');
+            await writeFixture(path.join(dir, 'pois', `${name}.json`), { bbox, categories: categoryIds, data: result.data });
+            return result;
+        }
+    };
+}
+
+export function getOsmProvider(): OsmProvider {
+    const fixturesDir = process.env.OSM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'osm');
+    const live = () => createLiveProvider(
+        process.env.OVERPASS_API_URL || DEFAULT_OVERPASS_API_URL,
+        process.env.NOMINATIM_BASE_URL || DEFAULT_NOMINATIM_BASE_URL
+    );
+
+    switch (process.env.OSM_PROVIDER) {
+        case 'fixtures':
+            return createFixtureProvider(fixturesDir);
+        case 'record':
+            return createRecordingProvider(live(), fixturesDir);
+        default:
+            return live();
+    }
+}
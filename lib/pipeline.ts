@@ -0,0 +1,175 @@
+import osmtogeojson from 'osmtogeojson';
+import { Feature, LineString, MultiPolygon, Point, Polygon } from 'geojson';
+import { BBox, getOsmProvider, OsmProvider } from './osmProvider';
+import { UpstreamResult } from './upstream';
+import { calculateArea, CellValue, ClosestRoadResult, createBuffer, getBoundingBox, getRoadLabel, normalizePolygon } from './geo';
+import { AnalysisError, AnalysisSettings, buildGrid, findReferenceRoad, selectedRoadTypes, valueCells } from './analysis';
+import { analyzeFrontage, FrontageResult } from './frontage';
+import { overpassToPoiFeatures } from './poi';
+import { priceCells } from './pricing';
+import { colorCells, createValueScale } from './colorScale';
+import { ScenarioSummary, summarizeCells } from './scenarios';
+
+// The full pipeline on the server (boundary -> buffer -> roads -> closest road
+// -> grid -> valuation -> pricing), fetching OSM data through the provider
+// directly. Used by /api/analyze and the batch CLI (scripts/analyze-batch.ts).
+// Server-side only.
+
+// Grids beyond this many cells take too long for a synchronous request
+export const DEFAULT_MAX_CELLS = Number(process.env.ANALYZE_MAX_CELLS) || 20000;
+
+// The buffered area has no roads of the selected types
+export class NoRoadsError extends AnalysisError {
+    constructor() {
+        super('No roads of the requested types found within the buffer');
+        this.name = 'NoRoadsError';
+    }
+}
+
+export interface BoundaryAnalysisSummary extends ScenarioSummary {
+    boundaryAreaSqM: number;
+    roadCount: number;
+    closestRoad: {
+        index: number;
+        label: string;
+        distanceMeters: number;
+        connection: ClosestRoadResult['connection'];
+    } | null;
+    frontage: Pick<FrontageResult, 'toleranceMeters' | 'perimeterMeters' | 'frontageMeters' | 'byClass' | 'streetCount' | 'isCornerPlot'>;
+}
+
+export interface BoundaryAnalysis {
+    roads: Feature<LineString>[];
+    closestRoad: ClosestRoadResult | null;
+    cells: CellValue[]; // valued and priced
+    summary: BoundaryAnalysisSummary;
+    roadsResult: UpstreamResult<unknown>; // for cache headers
+}
+
+export async function boundaryFromOsm(
+    osmType: string,
+    osmId: string,
+    provider: OsmProvider = getOsmProvider()
+): Promise<Feature<Polygon | MultiPolygon> | null> {
+    if (osmType !== 'relation' && osmType !== 'way') {
+        throw new AnalysisError('Invalid osm_type. Must be relation or way.');
+    }
+    // The id ends up in the Overpass query and, with fixtures, in a file path
+    if (!/^\d+$/.test(osmId)) {
+        throw new AnalysisError('Invalid osm_id. Must be a number.');
+    }
+    const result = await provider.boundary(osmType, osmId);
+    const geojson = osmtogeojson(result.data);
+    const feature = geojson.features.find(f => f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon');
+    return feature ? normalizePolygon(feature) : null;
+}
+
+// A Polygon/MultiPolygon Feature, bare geometry or FeatureCollection (first polygon wins)
+export function boundaryFromGeoJSON(geojson: unknown): Feature<Polygon | MultiPolygon> | null {
+    if (!geojson || typeof geojson !== 'object') return null;
+    const g = geojson as { type?: string; features?: unknown[] };
+    if (g.type === 'FeatureCollection') {
+        for (const f of g.features || []) {
+            const boundary = boundaryFromGeoJSON(f);
+            if (boundary) return boundary;
+        }
+        return null;
+    }
+    // Bare geometries are wrapped so normalizePolygon sees a Feature
+    return normalizePolygon(g.type === 'Feature' ? g : { type: 'Feature', geometry: g, properties: {} });
+}
+
+interface SearchResult {
+    osm_type?: string;
+    osm_id?: number | string;
+    geojson?: { type?: string };
+}
+
+/**
+ * Boundary of the first search result with an area, like picking it in the
+ * sidebar: Nominatim's polygon when it sent one, otherwise the OSM way/relation.
+ */
+export async function boundaryFromSearch(
+    query: string,
+    provider: OsmProvider = getOsmProvider()
+): Promise<Feature<Polygon | MultiPolygon> | null> {
+    const result = await provider.search(query);
+    const places = Array.isArray(result.data) ? result.data as SearchResult[] : [];
+    for (const place of places) {
+        const fromGeojson = boundaryFromGeoJSON(place.geojson);
+        if (fromGeojson) return fromGeojson;
+        if ((place.osm_type === 'relation' || place.osm_type === 'way') && place.osm_id !== undefined) {
+            const fromOsm = await boundaryFromOsm(place.osm_type, String(place.osm_id), provider);
+            if (fromOsm) return fromOsm;
+        }
+    }
+    return null;
+}
+
+export function estimateCellCount(boundary: Feature<Polygon | MultiPolygon>, settings: Pick<AnalysisSettings, 'cellSize' | 'gridType'>): number {
+    return calculateArea(boundary) / (settings.cellSize * settings.cellSize) * (settings.gridType === 'triangle' ? 2.5 : 1);
+}
+
+export async function analyzeBoundary(
+    boundary: Feature<Polygon | MultiPolygon>,
+    settings: AnalysisSettings,
+    options: { provider?: OsmProvider; closestRoadIndex?: number | null; maxCells?: number } = {}
+): Promise<BoundaryAnalysis> {
+    const provider = options.provider || getOsmProvider();
+    const maxCells = options.maxCells ?? DEFAULT_MAX_CELLS;
+
+    const types = selectedRoadTypes(settings);
+    if (types.length === 0) {
+        throw new AnalysisError('At least one road type is required');
+    }
+    if (settings.cellSize <= 0 || settings.bufferDistance < 0) {
+        throw new AnalysisError('cellSize must be positive and bufferDistance non-negative');
+    }
+    const estimatedCells = estimateCellCount(boundary, settings);
+    if (estimatedCells > maxCells) {
+        throw new AnalysisError(
+            `About ${Math.round(estimatedCells)} cells at ${settings.cellSize}m; the limit is ${maxCells}. Use a larger cellSize.`
+        );
+    }
+
+    // 1. Roads around the buffered boundary
+    const buffered = createBuffer(boundary, settings.bufferDistance);
+    if (!buffered) throw new Error('Failed to create buffer');
+    const bbox = getBoundingBox(buffered) as BBox;
+    const roadsResult = await provider.roads(bbox, types);
+    const roads = osmtogeojson(roadsResult.data).features
+        .filter(f => f.geometry?.type === 'LineString') as Feature<LineString>[];
+    if (roads.length === 0) throw new NoRoadsError();
+
+    // 2. Closest road, grid and valuation (same steps as the sidebar)
+    const closestRoad = findReferenceRoad(boundary, roads, options.closestRoadIndex);
+    let pois: Feature<Point>[] = [];
+    if (settings.usePoiFactors && settings.poiCategories.length > 0) {
+        const poisResult = await provider.pois(bbox, settings.poiCategories);
+        pois = overpassToPoiFeatures(poisResult.data, settings.poiCategories);
+    }
+    const grid = buildGrid(boundary, roads, closestRoad, settings);
+    const valued = valueCells(grid, roads, closestRoad, settings, pois);
+    const scale = createValueScale(valued.map(cell => cell.value), settings.colors);
+    const cells = colorCells(priceCells(valued, settings.pricing), scale);
+    const { toleranceMeters, perimeterMeters, frontageMeters, byClass, streetCount, isCornerPlot } = analyzeFrontage(boundary, roads);
+
+    return {
+        roads,
+        closestRoad,
+        cells,
+        summary: {
+            ...summarizeCells(cells, settings.pricing),
+            boundaryAreaSqM: calculateArea(boundary),
+            roadCount: roads.length,
+            closestRoad: closestRoad && {
+                index: closestRoad.roadIndex,
+                label: getRoadLabel(roads[closestRoad.roadIndex]),
+                distanceMeters: closestRoad.distanceMeters,
+                connection: closestRoad.connection
+            },
+            frontage: { toleranceMeters, perimeterMeters, frontageMeters, byClass, streetCount, isCornerPlot }
+        },
+        roadsResult
+    };
+}
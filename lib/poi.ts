@@ -0,0 +1,116 @@
+import { Feature, Point } from 'geojson';
+
+// Points-of-interest categories used as valuation factors. Shared by the
+// /api/osm/pois route (Overpass selectors) and the page (labels, defaults).
+
+export interface PoiCategory {
+    id: string;
+    label: string;
+    color: string;
+    selectors: string[]; // Overpass tag filters, each applied to nodes, ways and relations
+    defaultWeight: number;
+    defaultHalfDistance: number; // meters at which the category contributes half its weight
+}
+
+export const POI_CATEGORIES: PoiCategory[] = [
+    {
+        id: 'school',
+        label: 'Schools',
+        color: '#43a047',
+        selectors: ['["amenity"="school"]'],
+        defaultWeight: 0.5,
+        defaultHalfDistance: 800
+    },
+    {
+        id: 'hospital',
+        label: 'Hospitals',
+        color: '#e53935',
+        selectors: ['["amenity"="hospital"]'],
+        defaultWeight: 0.4,
+        defaultHalfDistance: 1500
+    },
+    {
+        id: 'bus_stop',
+        label: 'Bus Stops',
+        color: '#fb8c00',
+        selectors: ['["highway"="bus_stop"]'],
+        defaultWeight: 0.3,
+        defaultHalfDistance: 300
+    },
+    {
+        id: 'metro_station',
+        label: 'Metro Stations',
+        color: '#8e24aa',
+        selectors: ['["railway"="station"]["station"="subway"]', '["railway"="station"]["subway"="yes"]'],
+        defaultWeight: 1.0,
+        defaultHalfDistance: 700
+    },
+    {
+        id: 'railway_station',
+        label: 'Railway Stations',
+        color: '#3949ab',
+        selectors: ['["railway"="station"]'],
+        defaultWeight: 0.6,
+        defaultHalfDistance: 1500
+    },
+    {
+        id: 'market',
+        label: 'Markets',
+        color: '#00897b',
+        selectors: ['["amenity"="marketplace"]', '["shop"="supermarket"]'],
+        defaultWeight: 0.3,
+        defaultHalfDistance: 600
+    }
+];
+
+export function getPoiCategory(id: string): PoiCategory | undefined {
+    return POI_CATEGORIES.find(c => c.id === id);
+}
+
+/**
+ * Category of an OSM element from its tags, checked in POI_CATEGORIES order so
+ * a metro station isn't also counted as a railway station. Mirrors the
+ * Overpass selectors above; only the requested categories are considered.
+ */
+export function classifyPoi(tags: Record<string, string>, categoryIds: string[]): string | null {
+    const wanted = new Set(categoryIds);
+    for (const category of POI_CATEGORIES) {
+        if (!wanted.has(category.id)) continue;
+        const matches = category.selectors.some(selector =>
+            [...selector.matchAll(/\["([^"]+)"="([^"]+)"\]/g)].every(([, key, value]) => tags[key] === value)
+        );
+        if (matches) return category.id;
+    }
+    return null;
+}
+
+interface OverpassPoiElement {
+    type: 'node' | 'way' | 'relation';
+    id: number;
+    lat?: number;
+    lon?: number;
+    center?: { lat: number; lon: number }; // ways/relations with "out center"
+    tags?: Record<string, string>;
+}
+
+// One Point per element of an Overpass POI response, tagged with the category it was fetched for
+export function overpassToPoiFeatures(data: unknown, categoryIds: string[]): Feature<Point>[] {
+    const elements = (data as { elements?: OverpassPoiElement[] }).elements || [];
+    const features: Feature<Point>[] = [];
+    elements.forEach(el => {
+        const lat = el.lat ?? el.center?.lat;
+        const lon = el.lon ?? el.center?.lon;
+        const category = classifyPoi(el.tags || {}, categoryIds);
+        if (lat === undefined || lon === undefined || !category) return;
+        features.push({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [lon, lat] },
+            properties: {
+                category,
+                name: el.tags?.name || '',
+                id: `${el.type}/${el.id}`
+            }
+        });
+    });
+    return features;
+}
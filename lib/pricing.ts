@@ -0,0 +1,101 @@
+import turfArea from '@turf/area';
+import { CellValue } from './geo';
+
+// Turns the 0-1 value score into money. A cell's price is its (boundary-clipped)
+// area × base rate × multiplier, where the multiplier runs linearly from the
+// floor (value 0) to the ceiling (value 1).
+
+export type AreaUnit = 'sqm' | 'sqft' | 'acre';
+
+export const AREA_UNITS: Record<AreaUnit, { label: string; sqm: number }> = {
+    sqm: { label: 'm²', sqm: 1 },
+    sqft: { label: 'sq ft', sqm: 0.09290304 },
+    acre: { label: 'acre', sqm: 4046.8564224 }
+};
+
+export interface PricingSettings {
+    baseRate: number; // currency per `unit`
+    unit: AreaUnit;
+    currency: string; // ISO 4217 code, for display
+    floorMultiplier: number;
+    ceilingMultiplier: number;
+}
+
+export const DEFAULT_PRICING: PricingSettings = {
+    baseRate: 1000,
+    unit: 'sqm',
+    currency: 'USD',
+    floorMultiplier: 0.5,
+    ceilingMultiplier: 1.5
+};
+
+export interface PricingSummary {
+    totalValue: number;
+    totalAreaSqM: number;
+    averageRatePerSqM: number;
+    top: { areaSqM: number; value: number }; // best N% of the land by area
+    bottom: { areaSqM: number; value: number }; // worst N% of the land by area
+}
+
+// Base rate converted to currency per m²
+export function ratePerSqM(settings: PricingSettings): number {
+    return settings.baseRate / AREA_UNITS[settings.unit].sqm;
+}
+
+export function valueMultiplier(value: number, settings: PricingSettings): number {
+    return settings.floorMultiplier + value * (settings.ceilingMultiplier - settings.floorMultiplier);
+}
+
+/** Copies of the cells with `areaSqM` and `price` set. */
+export function priceCells(cells: CellValue[], settings: PricingSettings): CellValue[] {
+    const rate = ratePerSqM(settings);
+    return cells.map(cell => {
+        const areaSqM = cell.areaSqM ?? turfArea(cell.feature);
+        return { ...cell, areaSqM, price: areaSqM * rate * valueMultiplier(cell.value, settings) };
+    });
+}
+
+/**
+ * Totals for priced cells. The top/bottom shares take the highest/lowest
+ * priced-per-m² cells until `percent` of the total area is covered; the cell
+ * straddling the cut-off is counted pro rata.
+ */
+export function summarizePricing(pricedCells: CellValue[], percent: number): PricingSummary {
+    const cells = pricedCells.filter(c => c.price !== undefined && c.areaSqM);
+    const totalAreaSqM = cells.reduce((sum, c) => sum + (c.areaSqM || 0), 0);
+    const totalValue = cells.reduce((sum, c) => sum + (c.price || 0), 0);
+
+    const unitPrice = (c: CellValue) => (c.price || 0) / (c.areaSqM || 1);
+    const targetArea = totalAreaSqM * Math.min(Math.max(percent, 0), 100) / 100;
+
+    const share = (sorted: CellValue[]) => {
+        let areaSqM = 0;
+        let value = 0;
+        for (const c of sorted) {
+            if (areaSqM >= targetArea) break;
+            const take = Math.min(c.areaSqM || 0, targetArea - areaSqM);
+            areaSqM += take;
+            value += take * unitPrice(c);
+        }
+        return { areaSqM, value };
+    };
+
+    const byUnitPrice = [...cells].sort((a, b) => unitPrice(b) - unitPrice(a));
+
+    return {
+        totalValue,
+        totalAreaSqM,
+        averageRatePerSqM: totalAreaSqM > 0 ? totalValue / totalAreaSqM : 0,
+        top: share(byUnitPrice),
+        bottom: share([...byUnitPrice].reverse())
+    };
+}
+
+export function formatMoney(amount: number, currency: string): string {
+    try {
+        return amount.toLocaleString(undefined, { style: 'currency', currency, maximumFractionDigits: 0 });
+    } catch {
+        // Unknown currency code: plain number with the code appended
+        return `${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })} ${currency}`;
+    }
+}
@@ -0,0 +1,197 @@
+import { Feature, LineString, MultiPolygon, Polygon, Position } from 'geojson';
+import { AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS, parseAnalysisSettings } from './analysis';
+import { normalizePolygon } from './geo';
+
+// Saving and restoring a whole analysis: a versioned JSON project file, and a
+// compact encoding of the same state for share links. Neither stores results;
+// opening one re-runs the pipeline (re-fetching roads when the file has none).
+
+export const PROJECT_FORMAT = 'land-value-gradient-project';
+export const PROJECT_VERSION = 1;
+
+export interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    version: number;
+    savedAt: string; // ISO timestamp
+    boundary: Feature<Polygon | MultiPolygon>;
+    settings: AnalysisSettings;
+    closestRoadIndex: number | null; // index into `roads` (or the re-fetched roads)
+    roads?: Feature<LineString>[]; // optional, lets a file open without the network
+}
+
+export function createProject(
+    boundary: Feature<Polygon | MultiPolygon>,
+    settings: AnalysisSettings,
+    closestRoadIndex: number | null,
+    roads?: Feature<LineString>[]
+): ProjectFile {
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: new Date().toISOString(),
+        boundary,
+        settings,
+        closestRoadIndex,
+        ...(roads && roads.length ? { roads } : {})
+    };
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Validates and upgrades a parsed project object. Throws an Error with a user-facing message.
+function readProject(raw: unknown): ProjectFile {
+    if (!isObject(raw) || raw.format !== PROJECT_FORMAT) {
+        throw new Error('Not a land value project file.');
+    }
+    const version = typeof raw.version === 'number' ? raw.version : 0;
+    if (version > PROJECT_VERSION) {
+        throw new Error(`Project was saved by a newer version of the app (format v${version}).`);
+    }
+
+    const boundary = isObject(raw.boundary) ? normalizePolygon(raw.boundary) : null;
+    if (!boundary) throw new Error('Project has no usable boundary polygon.');
+
+    const roads = Array.isArray(raw.roads)
+        ? (raw.roads as Feature[]).filter(f => f?.geometry?.type === 'LineString') as Feature<LineString>[]
+        : undefined;
+
+    return {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : '',
+        boundary,
+        settings: parseAnalysisSettings(raw.settings),
+        closestRoadIndex: typeof raw.closestRoadIndex === 'number' ? raw.closestRoadIndex : null,
+        ...(roads && roads.length ? { roads } : {})
+    };
+}
+
+export function serializeProject(project: ProjectFile): string {
+    return JSON.stringify(project, null, 2);
+}
+
+export function parseProject(text: string): ProjectFile {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new Error('Project file is not valid JSON.');
+    }
+    return readProject(json);
+}
+
+// --- Share links ---
+//
+// The boundary rings are stored as encoded polylines (1e-6 degree precision)
+// and only settings that differ from the defaults are kept; the result is
+// deflated and base64url-encoded. Roads are never included.
+
+const POLYLINE_PRECISION = 1e6;
+
+function encodePolyline(ring: Position[]): string {
+    let out = '';
+    let prevLat = 0;
+    let prevLng = 0;
+    const encodeValue = (v: number) => {
+        let n = v < 0 ? ~(v << 1) : v << 1;
+        let chunk = '';
+        while (n >= 0x20) {
+            chunk += String.fromCharCode((0x20 | (n & 0x1f)) + 63);
+            n >>= 5;
+        }
+        return chunk + String.fromCharCode(n + 63);
+    };
+    ring.forEach(([lng, lat]) => {
+        const iLat = Math.round(lat * POLYLINE_PRECISION);
+        const iLng = Math.round(lng * POLYLINE_PRECISION);
+        out += encodeValue(iLat - prevLat) + encodeValue(iLng - prevLng);
+        prevLat = iLat;
+        prevLng = iLng;
+    });
+    return out;
+}
+
+function decodePolyline(str: string): Position[] {
+    const coords: Position[] = [];
+    let index = 0;
+    let lat = 0;
+    let lng = 0;
+    const decodeValue = () => {
+        let result = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            if (index >= str.length) throw new Error('Share link is truncated.');
+            byte = str.charCodeAt(index++) - 63;
+            result |= (byte & 0x1f) << shift;
+            shift += 5;
+        } while (byte >= 0x20);
+        return result & 1 ? ~(result >> 1) : result >> 1;
+    };
+    while (index < str.length) {
+        lat += decodeValue();
+        lng += decodeValue();
+        coords.push([lng / POLYLINE_PRECISION, lat / POLYLINE_PRECISION]);
+    }
+    return coords;
+}
+
+// Top-level settings that differ from the defaults
+function settingsDiff(settings: AnalysisSettings): Partial<AnalysisSettings> {
+    const defaults = DEFAULT_ANALYSIS_SETTINGS as unknown as Record<string, unknown>;
+    return Object.fromEntries(
+        Object.entries(settings).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(defaults[key]))
+    ) as Partial<AnalysisSettings>;
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+    btoa(Array.from(bytes, b => String.fromCharCode(b)).join('')).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (str: string) =>
+    Uint8Array.from(atob(str.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+async function pipeThrough(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const piped = new Blob([bytes as BlobPart]).stream().pipeThrough(stream);
+    return new Uint8Array(await new Response(piped).arrayBuffer());
+}
+
+export async function encodeProjectForUrl(project: ProjectFile): Promise<string> {
+    const geometry = project.boundary.geometry;
+    const parts = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    const compact = {
+        v: project.version,
+        b: parts.map(rings => rings.map(encodePolyline)),
+        s: settingsDiff(project.settings),
+        r: project.closestRoadIndex
+    };
+    const json = new TextEncoder().encode(JSON.stringify(compact));
+    return toBase64Url(await pipeThrough(json, new CompressionStream('deflate-raw')));
+}
+
+export async function decodeProjectFromUrl(encoded: string): Promise<ProjectFile> {
+    let compact: { v?: number; b?: string[][]; s?: unknown; r?: unknown };
+    try {
+        const bytes = await pipeThrough(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+        compact = JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        throw new Error('Share link is damaged or incomplete.');
+    }
+    if (!Array.isArray(compact.b) || compact.b.length === 0) {
+        throw new Error('Share link has no boundary.');
+    }
+
+    const parts = compact.b.map(rings => rings.map(decodePolyline));
+    return readProject({
+        format: PROJECT_FORMAT,
+        version: compact.v,
+        boundary: {
+            type: 'Feature',
+            properties: {},
+            geometry: parts.length === 1
+                ? { type: 'Polygon', coordinates: parts[0] }
+                : { type: 'MultiPolygon', coordinates: parts }
+        },
+        settings: compact.s,
+        closestRoadIndex: compact.r
+    });
+}
@@ -0,0 +1,206 @@
+import RBush from 'rbush';
+import turfDistance from '@turf/distance';
+import { Feature, LineString, Position } from 'geojson';
+
+// Routable graph built from the road LineStrings returned by /api/osm/roads.
+// OSM ways that meet at an intersection share a node, so vertices with the same
+// coordinate become the same graph node. Edges are undirected (travel/walking
+// distance, oneway tags are ignored) and weighted by length in meters.
+export interface RoadGraph {
+    nodes: Position[];                                  // [lng, lat] per node id
+    adjacency: { to: number; length: number }[][];      // edges per node id
+    roadNodes: number[][];                              // node ids of each input road, by road index
+    nodeTree: RBush<NodeBox>;                           // node positions, for snapping points to the graph
+}
+
+interface NodeBox {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    id: number; // node id
+}
+
+// First snapping window (half-width, in degrees of latitude, ~100 m); it grows 4x
+// until it holds a node closer than its half-width
+const INITIAL_SNAP_RADIUS = 0.001;
+
+// ~1cm precision; enough to merge shared OSM nodes without merging distinct ones
+const coordKey = (c: Position) => `${c[0].toFixed(7)},${c[1].toFixed(7)}`;
+
+const metersBetween = (a: Position, b: Position) => turfDistance(a, b, { units: 'meters' });
+
+export function buildRoadGraph(roads: Feature<LineString>[]): RoadGraph {
+    const nodes: Position[] = [];
+    const adjacency: { to: number; length: number }[][] = [];
+    const idByKey = new Map<string, number>();
+
+    const nodeId = (c: Position) => {
+        const key = coordKey(c);
+        let id = idByKey.get(key);
+        if (id === undefined) {
+            id = nodes.length;
+            idByKey.set(key, id);
+            nodes.push([c[0], c[1]]);
+            adjacency.push([]);
+        }
+        return id;
+    };
+
+    const roadNodes = roads.map(road => {
+        const coords = road.geometry?.coordinates || [];
+        const ids = coords.map(nodeId);
+        for (let i = 1; i < ids.length; i++) {
+            const a = ids[i - 1];
+            const b = ids[i];
+            if (a === b) continue;
+            const length = metersBetween(nodes[a], nodes[b]);
+            adjacency[a].push({ to: b, length });
+            adjacency[b].push({ to: a, length });
+        }
+        return ids;
+    });
+
+    const nodeTree = new RBush<NodeBox>();
+    nodeTree.load(nodes.map(([x, y], id) => ({ minX: x, minY: y, maxX: x, maxY: y, id })));
+
+    return { nodes, adjacency, roadNodes, nodeTree };
+}
+
+export function findNearestNode(graph: RoadGraph, pt: Position): { nodeId: number; distanceMeters: number } | null {
+    if (graph.nodes.length === 0) return null;
+
+    // Cheap planar distance (longitude scaled by latitude) over the nodes in a
+    // growing window, exact distance only for the winner
+    const cosLat = Math.max(Math.cos((pt[1] * Math.PI) / 180), 1e-6);
+    const extent = graph.nodeTree.toJSON() as RBush.BBox; // the root box covers every node
+    let best = -1;
+    for (let radius = INITIAL_SNAP_RADIUS; ; radius *= 4) {
+        const box = {
+            minX: pt[0] - radius / cosLat, minY: pt[1] - radius,
+            maxX: pt[0] + radius / cosLat, maxY: pt[1] + radius
+        };
+        let bestScore = Infinity;
+        graph.nodeTree.search(box).forEach(({ id }) => {
+            const dx = (graph.nodes[id][0] - pt[0]) * cosLat;
+            const dy = graph.nodes[id][1] - pt[1];
+            const score = dx * dx + dy * dy;
+            // Equidistant nodes go to the lowest id, so a point always snaps to the same node
+            if (score < bestScore || (score === bestScore && id < best)) {
+                bestScore = score;
+                best = id;
+            }
+        });
+        // Nothing outside the window can beat a node within its half-width
+        const exhaustive = box.minX <= extent.minX && box.minY <= extent.minY && box.maxX >= extent.maxX && box.maxY >= extent.maxY;
+        if (bestScore <= radius * radius || exhaustive) break;
+    }
+
+    return { nodeId: best, distanceMeters: metersBetween(pt, graph.nodes[best]) };
+}
+
+// Minimal binary min-heap keyed by distance, used by Dijkstra below
+class MinHeap {
+    private items: { id: number; dist: number }[] = [];
+
+    get size() {
+        return this.items.length;
+    }
+
+    push(id: number, dist: number) {
+        const items = this.items;
+        items.push({ id, dist });
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (items[parent].dist <= items[i].dist) break;
+            [items[parent], items[i]] = [items[i], items[parent]];
+            i = parent;
+        }
+    }
+
+    pop(): { id: number; dist: number } | undefined {
+        const items = this.items;
+        if (items.length === 0) return undefined;
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1;
+                const r = l + 1;
+                let smallest = i;
+                if (l < items.length && items[l].dist < items[smallest].dist) smallest = l;
+                if (r < items.length && items[r].dist < items[smallest].dist) smallest = r;
+                if (smallest === i) break;
+                [items[smallest], items[i]] = [items[i], items[smallest]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
+
+/**
+ * Multi-source Dijkstra. `sources` maps node id -> starting distance (0 for
+ * nodes on the target road, the snap distance for access points).
+ * Returns the shortest network distance from any source to every node;
+ * nodes in disconnected components stay at Infinity.
+ */
+export function computeNetworkDistances(graph: RoadGraph, sources: Map<number, number>): Float64Array {
+    const dist = new Float64Array(graph.nodes.length).fill(Infinity);
+    const heap = new MinHeap();
+
+    sources.forEach((d, id) => {
+        if (d < dist[id]) {
+            dist[id] = d;
+            heap.push(id, d);
+        }
+    });
+
+    while (heap.size > 0) {
+        const { id, dist: d } = heap.pop()!;
+        if (d > dist[id]) continue; // stale entry
+        for (const edge of graph.adjacency[id]) {
+            const nd = d + edge.length;
+            if (nd < dist[edge.to]) {
+                dist[edge.to] = nd;
+                heap.push(edge.to, nd);
+            }
+        }
+    }
+
+    return dist;
+}
+
+export type NetworkTarget =
+    | { type: 'road'; roadIndex: number }
+    | { type: 'points'; points: Position[] };
+
+/**
+ * Builds a distance function for calculateLandValues: a point snaps to its
+ * nearest network node, then travels along the network to the target.
+ */
+export function createNetworkDistanceFn(graph: RoadGraph, target: NetworkTarget): (pt: Position) => number {
+    const sources = new Map<number, number>();
+
+    if (target.type === 'road') {
+        (graph.roadNodes[target.roadIndex] || []).forEach(id => sources.set(id, 0));
+    } else {
+        target.points.forEach(p => {
+            const snapped = findNearestNode(graph, p);
+            if (!snapped) return;
+            const prev = sources.get(snapped.nodeId) ?? Infinity;
+            sources.set(snapped.nodeId, Math.min(prev, snapped.distanceMeters));
+        });
+    }
+
+    const dist = computeNetworkDistances(graph, sources);
+
+    return (pt: Position) => {
+        const snapped = findNearestNode(graph, pt);
+        if (!snapped) return Infinity;
+        return snapped.distanceMeters + dist[snapped.nodeId];
+    };
+}
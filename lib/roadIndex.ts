@@ -0,0 +1,168 @@
+import RBush from 'rbush';
+import { lineString, point } from '@turf/helpers';
+import turfNearestPointOnLine from '@turf/nearest-point-on-line';
+import { Feature, LineString, Position } from 'geojson';
+
+// R-tree over the segments of the fetched roads, so "nearest road" questions
+// only measure the handful of segments around a point instead of every road.
+// Built once per roads array (getRoadIndex) and shared by the closest-road
+// search and the per-cell valuation in lib/geo.
+
+export interface RoadSegment {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    id: number; // 0..segmentCount - 1
+    roadIndex: number;
+    segmentIndex: number; // segment i runs from vertex i to vertex i + 1
+}
+
+export interface RoadIndex {
+    roads: Feature<LineString>[];
+    tree: RBush<RoadSegment>;
+    segmentCount: number;
+    extent: [number, number, number, number]; // [minX, minY, maxX, maxY] of all segments
+}
+
+export interface SegmentHit {
+    roadIndex: number;
+    segmentIndex: number;
+    distanceMeters: number;
+    point: Position; // nearest point on the segment
+}
+
+// First search window; it grows 4x until it holds a segment closer than its half-width
+const INITIAL_RADIUS_METERS = 100;
+
+export function buildRoadIndex(roads: Feature<LineString>[]): RoadIndex {
+    const segments: RoadSegment[] = [];
+    roads.forEach((road, roadIndex) => {
+        const coords = road.geometry?.coordinates || [];
+        for (let i = 0; i < coords.length - 1; i++) {
+            const [x1, y1] = coords[i];
+            const [x2, y2] = coords[i + 1];
+            segments.push({
+                minX: Math.min(x1, x2), minY: Math.min(y1, y2),
+                maxX: Math.max(x1, x2), maxY: Math.max(y1, y2),
+                id: segments.length,
+                roadIndex,
+                segmentIndex: i
+            });
+        }
+    });
+
+    const tree = new RBush<RoadSegment>();
+    tree.load(segments);
+    // The root node's box covers every segment
+    const root = tree.toJSON() as RBush.BBox;
+    const extent: RoadIndex['extent'] = segments.length ? [root.minX, root.minY, root.maxX, root.maxY] : [0, 0, 0, 0];
+    return { roads, tree, segmentCount: segments.length, extent };
+}
+
+const cache = new WeakMap<Feature<LineString>[], RoadIndex>();
+
+/** The index for this exact roads array, built on first use. */
+export function getRoadIndex(roads: Feature<LineString>[]): RoadIndex {
+    let index = cache.get(roads);
+    if (!index) {
+        index = buildRoadIndex(roads);
+        cache.set(roads, index);
+    }
+    return index;
+}
+
+// Lon/lat box that contains everything within `meters` of the bbox, erring on the large side
+export function searchBox(bbox: [number, number, number, number], meters: number) {
+    const [minX, minY, maxX, maxY] = bbox;
+    const dLat = (meters * 1.05) / 110574; // shortest degree of latitude
+    const maxAbsLat = Math.min(Math.max(Math.abs(minY), Math.abs(maxY)) + dLat, 89);
+    const dLng = (meters * 1.05) / (111320 * Math.cos((maxAbsLat * Math.PI) / 180));
+    return { minX: minX - dLng, minY: minY - dLat, maxX: maxX + dLng, maxY: maxY + dLat };
+}
+
+const boxCovers = (box: ReturnType<typeof searchBox>, extent: RoadIndex['extent']) =>
+    box.minX <= extent[0] && box.minY <= extent[1] && box.maxX >= extent[2] && box.maxY >= extent[3];
+
+export function segmentCoordinates(index: RoadIndex, segment: Pick<RoadSegment, 'roadIndex' | 'segmentIndex'>): [Position, Position] {
+    const coords = index.roads[segment.roadIndex].geometry.coordinates;
+    return [coords[segment.segmentIndex], coords[segment.segmentIndex + 1]];
+}
+
+// Same measure as turfPointToLineDistance / turfNearestPointOnLine on the whole road
+function measure(index: RoadIndex, segment: RoadSegment, pt: Position): SegmentHit {
+    const nearest = turfNearestPointOnLine(lineString(segmentCoordinates(index, segment)), point(pt), { units: 'meters' });
+    return {
+        roadIndex: segment.roadIndex,
+        segmentIndex: segment.segmentIndex,
+        distanceMeters: nearest.properties.dist ?? Infinity,
+        point: nearest.geometry.coordinates
+    };
+}
+
+/**
+ * Nearest segment to `pt`, optionally only on roads accepted by `include`.
+ * Searches a window around the point that widens until the best hit lies
+ * inside it (or the window covers every road); null when nothing qualifies
+ * within `maxDistance`.
+ */
+export function nearestSegment(
+    index: RoadIndex,
+    pt: Position,
+    options: { include?: (roadIndex: number) => boolean; maxDistance?: number } = {}
+): SegmentHit | null {
+    const maxDistance = options.maxDistance ?? Infinity;
+    let radius = Math.min(INITIAL_RADIUS_METERS, maxDistance);
+
+    for (;;) {
+        const box = searchBox([pt[0], pt[1], pt[0], pt[1]], radius);
+        let best: SegmentHit | null = null;
+        for (const segment of index.tree.search(box)) {
+            if (options.include && !options.include(segment.roadIndex)) continue;
+            const hit = measure(index, segment, pt);
+            if (!best || hit.distanceMeters < best.distanceMeters) best = hit;
+        }
+        if (best && best.distanceMeters <= radius) return best;
+        if (radius >= maxDistance) return null;
+        if (boxCovers(box, index.extent)) return best && best.distanceMeters <= maxDistance ? best : null;
+        radius = Math.min(radius * 4, maxDistance);
+    }
+}
+
+/**
+ * Distance from `pt` to every road that comes within `radius` meters of it
+ * (roads accepted by `include` only). `complete` is true when the search window
+ * covered every road, i.e. the roads left out are farther than `radius` only
+ * because they don't exist.
+ */
+export function roadDistancesWithin(
+    index: RoadIndex,
+    pt: Position,
+    radius: number,
+    include?: (roadIndex: number) => boolean
+): { distances: Map<number, number>; complete: boolean } {
+    const box = searchBox([pt[0], pt[1], pt[0], pt[1]], radius);
+    const distances = new Map<number, number>();
+    for (const segment of index.tree.search(box)) {
+        if (include && !include(segment.roadIndex)) continue;
+        const d = measure(index, segment, pt).distanceMeters;
+        if (d < (distances.get(segment.roadIndex) ?? Infinity)) distances.set(segment.roadIndex, d);
+    }
+    const complete = boxCovers(box, index.extent);
+    if (!complete) {
+        distances.forEach((d, roadIndex) => {
+            if (d > radius) distances.delete(roadIndex);
+        });
+    }
+    return { distances, complete };
+}
+
+/** True when the bbox grown by `meters` contains every segment in the index. */
+export function coversIndex(index: RoadIndex, bbox: [number, number, number, number], meters: number): boolean {
+    return boxCovers(searchBox(bbox, meters), index.extent);
+}
+
+/** Segments with any part inside the bbox grown by `meters`. */
+export function segmentsNear(index: RoadIndex, bbox: [number, number, number, number], meters: number): RoadSegment[] {
+    return index.tree.search(searchBox(bbox, meters));
+}
@@ -0,0 +1,137 @@
+import RBush from 'rbush';
+import turfBbox from '@turf/bbox';
+import turfBooleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import turfCentroid from '@turf/centroid';
+import { scaleDiverging } from 'd3-scale';
+import { interpolateRdBu } from 'd3-scale-chromatic';
+import { Feature, LineString, Polygon } from 'geojson';
+import { CellValue, ClosestRoadResult } from './geo';
+import { AnalysisSettings } from './analysis';
+import { PricingSettings, priceCells, summarizePricing } from './pricing';
+
+// Named snapshots of an analysis (the sidebar settings plus the cells they
+// produced), so different parameter sets can be switched between and compared.
+
+export interface ScenarioSummary {
+    cellCount: number;
+    areaSqM: number;
+    minValue: number;
+    maxValue: number;
+    meanValue: number; // area-weighted
+    medianValue: number;
+    meanDistance: number; // meters, reachable cells only
+    totalPrice: number;
+    averageRatePerSqM: number;
+}
+
+export interface Scenario {
+    id: string;
+    name: string;
+    createdAt: string; // ISO timestamp
+    settings: AnalysisSettings;
+    roads: Feature<LineString>[]; // roadIndex in the cells points into this
+    closestRoad: ClosestRoadResult | null;
+    cells: CellValue[]; // valuation results before pricing
+    summary: ScenarioSummary;
+}
+
+export function summarizeCells(cells: CellValue[], pricing: PricingSettings): ScenarioSummary {
+    const priced = priceCells(cells, pricing);
+    const totals = summarizePricing(priced, 100);
+    const values = cells.map(c => c.value).sort((a, b) => a - b);
+    const distances = cells.map(c => c.distance).filter(d => Number.isFinite(d));
+    const mid = Math.floor(values.length / 2);
+
+    return {
+        cellCount: cells.length,
+        areaSqM: totals.totalAreaSqM,
+        minValue: values.length ? values[0] : 0,
+        maxValue: values.length ? values[values.length - 1] : 0,
+        meanValue: totals.totalAreaSqM > 0
+            ? priced.reduce((sum, c) => sum + c.value * (c.areaSqM || 0), 0) / totals.totalAreaSqM
+            : 0,
+        medianValue: values.length === 0 ? 0 : values.length % 2 ? values[mid] : (values[mid - 1] + values[mid]) / 2,
+        meanDistance: distances.length ? distances.reduce((a, b) => a + b, 0) / distances.length : 0,
+        totalPrice: totals.totalValue,
+        averageRatePerSqM: totals.averageRatePerSqM
+    };
+}
+
+export function createScenario(
+    name: string,
+    settings: AnalysisSettings,
+    roads: Feature<LineString>[],
+    closestRoad: Scenario['closestRoad'],
+    cells: CellValue[]
+): Scenario {
+    return {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        createdAt: new Date().toISOString(),
+        settings,
+        roads,
+        closestRoad,
+        cells,
+        summary: summarizeCells(cells, settings.pricing)
+    };
+}
+
+export interface CellDifference {
+    feature: Feature<Polygon>;
+    baseValue: number;
+    otherValue: number | null; // null when the other scenario has no cell here
+    delta: number | null; // other - base
+    color: string;
+}
+
+const NO_MATCH_COLOR = '#bdbdbd';
+
+interface CellBox {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+    index: number; // into the scenario's cells
+}
+
+/**
+ * Per-cell difference of `other` against `base`, on the base scenario's cells.
+ * The grids may differ (cell size, type), so each base cell takes the value of
+ * the other scenario's cell containing its centroid. Colours run blue (lower)
+ * through white to red (higher), symmetric around no change.
+ */
+export function diffScenarios(base: Scenario, other: Scenario): CellDifference[] {
+    // R-tree over the other scenario's cell boxes, as lib/roadIndex does for road segments
+    const tree = new RBush<CellBox>();
+    tree.load(other.cells.map((cell, index) => {
+        const [minX, minY, maxX, maxY] = turfBbox(cell.feature);
+        return { minX, minY, maxX, maxY, index };
+    }));
+
+    const matched = base.cells.map(cell => {
+        const center = turfCentroid(cell.feature);
+        const [x, y] = center.geometry.coordinates;
+        // Lowest index first, so a centroid on a shared edge always picks the same cell
+        const hit = tree.search({ minX: x, minY: y, maxX: x, maxY: y })
+            .sort((a, b) => a.index - b.index)
+            .find(box => turfBooleanPointInPolygon(center, other.cells[box.index].feature));
+        return { cell, otherValue: hit ? other.cells[hit.index].value : null };
+    });
+
+    const maxAbs = Math.max(
+        ...matched.map(m => (m.otherValue === null ? 0 : Math.abs(m.otherValue - m.cell.value))),
+        1e-6
+    );
+    const colorScale = scaleDiverging(interpolateRdBu).domain([maxAbs, 0, -maxAbs]);
+
+    return matched.map(({ cell, otherValue }) => {
+        const delta = otherValue === null ? null : otherValue - cell.value;
+        return {
+            feature: cell.feature,
+            baseValue: cell.value,
+            otherValue,
+            delta,
+            color: delta === null ? NO_MATCH_COLOR : colorScale(delta)
+        };
+    });
+}
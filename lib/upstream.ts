@@ -0,0 +1,216 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NextResponse } from 'next/server';
+
+// Shared client for the public OSM services (Nominatim, Overpass), used by the
+// /api/osm/* routes. Responses are cached on disk so re-analysing the same area
+// never hits the network twice, and transient failures (429/5xx, timeouts) are
+// retried with exponential backoff. Server-side only.
+//
+// Configuration (env):
+//   OSM_CACHE_DIR          cache directory (default .cache/osm)
+//   OSM_CACHE_TTL_SECONDS  how long a cached response is fresh (default 7 days, 0 disables the cache)
+//   OSM_TIMEOUT_MS         per-attempt timeout (default 30000)
+//   OSM_MAX_RETRIES        retries after the first attempt (default 3)
+
+const CACHE_DIR = process.env.OSM_CACHE_DIR || path.join(process.cwd(), '.cache', 'osm');
+const DEFAULT_TTL_SECONDS = envNumber('OSM_CACHE_TTL_SECONDS', 7 * 24 * 3600);
+const DEFAULT_TIMEOUT_MS = envNumber('OSM_TIMEOUT_MS', 30000);
+const DEFAULT_MAX_RETRIES = envNumber('OSM_MAX_RETRIES', 3);
+const BASE_BACKOFF_MS = 1000;
+
+const RETRYABLE_STATUS = new Set([429, 502, 503, 504]);
+
+function envNumber(name: string, fallback: number): number {
+    const raw = process.env[name];
+    const n = raw === undefined ? NaN : Number(raw);
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+export class UpstreamError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'UpstreamError';
+        this.status = status;
+    }
+}
+
+export interface UpstreamRequest {
+    url: string;
+    method?: 'GET' | 'POST';
+    body?: string;
+    headers?: Record<string, string>;
+}
+
+export interface UpstreamOptions {
+    ttlSeconds?: number;
+    timeoutMs?: number;
+    maxRetries?: number;
+}
+
+// HIT = fresh from disk, MISS = fetched now, STALE = upstream failed so an expired entry was served,
+// FIXTURE = served offline by the fixture provider (lib/osmProvider)
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'FIXTURE';
+
+export interface UpstreamResult<T> {
+    data: T;
+    cacheStatus: CacheStatus;
+    ageSeconds: number;
+}
+
+interface CacheEntry<T> {
+    storedAt: number;
+    request: UpstreamRequest;
+    data: T;
+}
+
+/**
+ * Cache key: method + URL with sorted query params + body with whitespace
+ * collapsed, so the same Overpass query formatted differently still hits.
+ */
+export function cacheKey(req: UpstreamRequest): string {
+    const url = new URL(req.url);
+    url.searchParams.sort();
+    const body = (req.body || '').replace(/\s+/g, ' ').trim();
+    return createHash('sha256')
+        .update(`${req.method || 'GET'} ${url.toString()}\n${body}`)
+        .digest('hex');
+}
+
+async function readCache<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+        const raw = await fs.readFile(path.join(CACHE_DIR, `${key}.json`), 'utf8');
+        return JSON.parse(raw) as CacheEntry<T>;
+    } catch {
+        return null;
+    }
+}
+
+async function writeCache<T>(key: string, entry: CacheEntry<T>) {
+    try {
+        await fs.mkdir(CACHE_DIR, { recursive: true });
+        // Write then rename so a concurrent reader never sees a half-written file
+        const file = path.join(CACHE_DIR, `${key}.json`);
+        const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(entry));
+        await fs.rename(tmp, file);
+    } catch (e) {
+        console.error("Upstream cache write failed", e);
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Retry-After may be seconds or an HTTP date
+function retryAfterMs(res: Response): number | null {
+    const header = res.headers.get('retry-after');
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+async function fetchWithRetry<T>(req: UpstreamRequest, timeoutMs: number, maxRetries: number): Promise<T> {
+    let lastError: Error = new UpstreamError('Upstream request failed', 502);
+
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        let waitMs = BASE_BACKOFF_MS * 2 ** attempt + Math.random() * 250;
+
+        try {
+            const res = await fetch(req.url, {
+                method: req.method || 'GET',
+                body: req.body,
+                headers: req.headers,
+                signal: controller.signal,
+                cache: 'no-store'
+            });
+
+            if (res.ok) {
+                return await res.json() as T;
+            }
+
+            lastError = new UpstreamError(`Upstream error ${res.status}: ${res.statusText}`, res.status);
+            if (!RETRYABLE_STATUS.has(res.status)) throw lastError;
+            // A wait longer than an attempt may take is given up on: the caller falls back
+            // to a stale cache entry or the error instead of hanging the request
+            const retryAfter = retryAfterMs(res);
+            if (retryAfter !== null && retryAfter > timeoutMs) break;
+            waitMs = Math.max(waitMs, retryAfter ?? 0);
+        } catch (e) {
+            if (e instanceof UpstreamError && !RETRYABLE_STATUS.has(e.status)) throw e;
+            if (e instanceof Error && e.name === 'AbortError') {
+                lastError = new UpstreamError(`Upstream request timed out after ${timeoutMs}ms`, 504);
+            } else if (!(e instanceof UpstreamError)) {
+                lastError = new UpstreamError(e instanceof Error ? e.message : 'Upstream request failed', 502);
+            }
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (attempt < maxRetries) await sleep(waitMs);
+    }
+
+    throw lastError;
+}
+
+// Identical requests arriving while one is in flight share its result
+const inFlight = new Map<string, Promise<UpstreamResult<unknown>>>();
+
+export async function fetchUpstreamJSON<T>(req: UpstreamRequest, options: UpstreamOptions = {}): Promise<UpstreamResult<T>> {
+    const ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const key = cacheKey(req);
+
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<UpstreamResult<T>>;
+
+    const run = async (): Promise<UpstreamResult<T>> => {
+        const cached = ttlSeconds > 0 ? await readCache<T>(key) : null;
+        const age = cached ? (Date.now() - cached.storedAt) / 1000 : Infinity;
+        if (cached && age < ttlSeconds) {
+            return { data: cached.data, cacheStatus: 'HIT', ageSeconds: Math.round(age) };
+        }
+
+        try {
+            const data = await fetchWithRetry<T>(req, timeoutMs, maxRetries);
+            if (ttlSeconds > 0) {
+                await writeCache(key, { storedAt: Date.now(), request: req, data });
+            }
+            return { data, cacheStatus: 'MISS', ageSeconds: 0 };
+        } catch (e) {
+            // Better an old answer than none when the public endpoint is overloaded
+            if (cached) {
+                console.warn("Upstream failed, serving stale cache entry", e);
+                return { data: cached.data, cacheStatus: 'STALE', ageSeconds: Math.round(age) };
+            }
+            throw e;
+        }
+    };
+
+    const promise = run().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+}
+
+// JSON response carrying the cache status of the upstream call(s) behind it
+export function jsonWithCacheHeaders(body: unknown, result: Pick<UpstreamResult<unknown>, 'cacheStatus' | 'ageSeconds'>) {
+    const res = NextResponse.json(body);
+    res.headers.set('X-Cache', result.cacheStatus);
+    res.headers.set('X-Cache-Age', String(result.ageSeconds));
+    return res;
+}
+
+// Routes report upstream failures with the upstream's own status where it is meaningful
+export function upstreamErrorStatus(error: unknown): number {
+    if (error instanceof UpstreamError) {
+        return error.status === 404 || error.status === 429 || error.status === 504 ? error.status : 502;
+    }
+    return 500;
+}
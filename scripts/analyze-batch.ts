@@ -0,0 +1,218 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { Feature, MultiPolygon, Polygon } from 'geojson';
+import { AnalysisSettings, parseAnalysisSettings } from '../lib/analysis';
+import { cellFeatures } from '../lib/export';
+import { getOsmProvider, OsmProvider } from '../lib/osmProvider';
+import { analyzeBoundary, boundaryFromGeoJSON, boundaryFromSearch, BoundaryAnalysisSummary } from '../lib/pipeline';
+
+// Batch analysis from the command line: runs the /api/analyze pipeline for
+// every place in a CSV of place names or every boundary in a folder of GeoJSON
+// files, all with the same settings, and writes one GeoJSON of valued cells per
+// place plus summary.csv. Places are processed one after another; a place that
+// fails is recorded in the summary and the run carries on.
+//
+//   npm run analyze:batch -- <places.csv | boundaries-dir> [options]
+//
+//   --out <dir>            output folder (default batch-output)
+//   --settings <file>      settings JSON, as in a project file or the API body
+//   --cell-size <m>        overrides settings.cellSize
+//   --buffer <m>           overrides settings.bufferDistance
+//   --grid <type>          square, hexagon, triangle or aligned
+//   --road-types <list>    comma-separated highway classes, e.g. primary,secondary
+//   --max-cells <n>        skip places whose grid would be larger (default ANALYZE_MAX_CELLS or 20000)
+//
+// The CSV takes place names from a "name", "place" or "query" column, or from
+// the first column when there is no such header. OSM data comes from the same
+// provider as the app (OSM_PROVIDER, see lib/osmProvider), so it is cached and
+// can run offline against fixtures.
+
+const USAGE = 'Usage: npm run analyze:batch -- <places.csv | boundaries-dir> [--out dir] [--settings file.json] '
+    + '[--cell-size m] [--buffer m] [--grid type] [--road-types a,b] [--max-cells n]';
+
+interface BatchInput {
+    name: string;
+    load: () => Promise<Feature<Polygon | MultiPolygon> | null>;
+}
+
+interface BatchRow {
+    name: string;
+    file: string;
+    summary: BoundaryAnalysisSummary | null;
+    error: string;
+}
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF
+function parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f.trim()));
+}
+
+const csvEscape = (v: string | number) => {
+    const str = String(v);
+    return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'place';
+
+async function placesFromCSV(file: string, provider: OsmProvider): Promise<BatchInput[]> {
+    const rows = parseCSV(await fs.readFile(file, 'utf8'));
+    const header = (rows[0] || []).map(h => h.trim().toLowerCase());
+    const column = ['name', 'place', 'query'].map(h => header.indexOf(h)).find(i => i >= 0);
+    const names = (column === undefined ? rows : rows.slice(1))
+        .map(r => (r[column ?? 0] || '').trim())
+        .filter(Boolean);
+
+    return names.map(name => ({ name, load: () => boundaryFromSearch(name, provider) }));
+}
+
+async function placesFromFolder(dir: string): Promise<BatchInput[]> {
+    const files = (await fs.readdir(dir)).filter(f => /\.(geo)?json$/i.test(f)).sort();
+    return files.map(f => ({
+        name: f.replace(/\.(geo)?json$/i, ''),
+        load: async () => boundaryFromGeoJSON(JSON.parse(await fs.readFile(path.join(dir, f), 'utf8')))
+    }));
+}
+
+type SettingsOptions = Partial<Record<'settings' | 'cell-size' | 'buffer' | 'grid' | 'road-types', string>>;
+
+async function loadSettings(values: SettingsOptions): Promise<AnalysisSettings> {
+    const raw = values.settings ? JSON.parse(await fs.readFile(values.settings, 'utf8')) : {};
+    // A saved project file works too
+    const base = raw && typeof raw === 'object' && raw.settings ? raw.settings : raw;
+
+    const overrides: Record<string, unknown> = {};
+    if (values['cell-size']) overrides.cellSize = Number(values['cell-size']);
+    if (values.buffer) overrides.bufferDistance = Number(values.buffer);
+    if (values.grid) overrides.gridType = values.grid;
+    if (values['road-types']) overrides.roadTypes = values['road-types'].split(',').map(t => t.trim()).filter(Boolean);
+    return parseAnalysisSettings({ ...base, ...overrides });
+}
+
+function summaryCSV(rows: BatchRow[]): string {
+    const header = [
+        'place', 'status', 'file', 'area_sqm', 'cell_count', 'closest_road', 'closest_road_m',
+        'frontage_m', 'corner_plot', 'mean_value', 'min_value', 'max_value', 'total_price', 'error'
+    ];
+    const round = (n: number, places: number) => Math.round(n * 10 ** places) / 10 ** places;
+    const lines = rows.map(({ name, file, summary: s, error }) => [
+        name,
+        s ? 'ok' : 'failed',
+        file,
+        s ? round(s.boundaryAreaSqM, 2) : '',
+        s ? s.cellCount : '',
+        s?.closestRoad?.label ?? '',
+        s?.closestRoad ? round(s.closestRoad.distanceMeters, 2) : '',
+        s ? round(s.frontage.frontageMeters, 2) : '',
+        s ? (s.frontage.isCornerPlot ? 'yes' : 'no') : '',
+        s ? round(s.meanValue, 4) : '',
+        s ? round(s.minValue, 4) : '',
+        s ? round(s.maxValue, 4) : '',
+        s ? round(s.totalPrice, 2) : '',
+        error
+    ].map(csvEscape).join(','));
+    return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string', default: 'batch-output' },
+            settings: { type: 'string' },
+            'cell-size': { type: 'string' },
+            buffer: { type: 'string' },
+            grid: { type: 'string' },
+            'road-types': { type: 'string' },
+            'max-cells': { type: 'string' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    if (values.help || positionals.length !== 1) {
+        console.log(USAGE);
+        process.exitCode = values.help ? 0 : 1;
+        return;
+    }
+
+    const provider = getOsmProvider();
+    const input = positionals[0];
+    const inputs = (await fs.stat(input)).isDirectory() ? await placesFromFolder(input) : await placesFromCSV(input, provider);
+    if (inputs.length === 0) {
+        throw new Error(`No places found in ${input}`);
+    }
+    const settings = await loadSettings(values);
+    const maxCells = values['max-cells'] ? Number(values['max-cells']) : undefined;
+    await fs.mkdir(values.out, { recursive: true });
+
+    const rows: BatchRow[] = [];
+    const usedFiles = new Set<string>();
+    for (const [i, place] of inputs.entries()) {
+        const progress = `[${i + 1}/${inputs.length}] ${place.name}`;
+        try {
+            const boundary = await place.load();
+            if (!boundary) throw new Error('No boundary polygon found');
+            const analysis = await analyzeBoundary(boundary, settings, { provider, maxCells });
+
+            let file = `${slug(place.name)}.geojson`;
+            for (let n = 2; usedFiles.has(file); n++) file = `${slug(place.name)}-${n}.geojson`;
+            usedFiles.add(file);
+            await fs.writeFile(path.join(values.out, file), JSON.stringify({
+                type: 'FeatureCollection',
+                features: cellFeatures(analysis.cells, analysis.roads),
+                summary: analysis.summary,
+                settings
+            }));
+
+            rows.push({ name: place.name, file, summary: analysis.summary, error: '' });
+            console.log(`${progress}: ${analysis.summary.cellCount} cells -> ${file}`);
+        } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            rows.push({ name: place.name, file: '', summary: null, error: message });
+            console.error(`${progress}: failed, ${message}`);
+        }
+    }
+
+    await fs.writeFile(path.join(values.out, 'summary.csv'), summaryCSV(rows));
+    const failed = rows.filter(r => !r.summary).length;
+    console.log(`Done: ${rows.length - failed} analysed, ${failed} failed. Summary in ${path.join(values.out, 'summary.csv')}`);
+    if (failed === rows.length) process.exitCode = 1;
+}
+
+main().catch(e => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exitCode = 1;
+});